@@ -0,0 +1,30 @@
+// ✅ ANALYTICS: Where placed orders are recorded, injected like the other order services
+// The console sink writes the legacy log line; tests record the events in memory instead
+
+import { formatMoney, Money } from './money';
+
+export interface OrderPlacedEvent {
+  userId: number;
+  total: Money;
+}
+
+export interface AnalyticsSink {
+  orderPlaced(event: OrderPlacedEvent): void;
+}
+
+export class ConsoleAnalytics implements AnalyticsSink {
+  constructor(private readonly log: (line: string) => void = console.log) {}
+
+  orderPlaced(event: OrderPlacedEvent): void {
+    this.log(`[ANALYTICS] User ${event.userId} placed order with total ${formatMoney(event.total)}`);
+  }
+}
+
+// Keeps every event instead of logging it, for tests to assert what was recorded
+export class InMemoryAnalytics implements AnalyticsSink {
+  readonly events: OrderPlacedEvent[] = [];
+
+  orderPlaced(event: OrderPlacedEvent): void {
+    this.events.push(event);
+  }
+}
@@ -0,0 +1,133 @@
+import { CheckoutPolicy, ShippingBandError, ShippingPolicy, TaxRegion } from './checkout';
+import { money } from './money';
+import { couponRule, createPricingPipeline, PriceBreakdown } from './pricing';
+import {
+  calculateOrderTotals,
+  defaultPricing,
+  OrderLine,
+  processUserOrderAndSendNotification,
+  Product,
+  subscriptionTierRule
+} from './refactored-divided';
+import { inMemoryOrderDependencies } from './test-dependencies';
+import { testUser } from './test-fixtures';
+
+const user = testUser();
+
+const book: Product = { id: 1, name: 'Book', price: money(20), stock: 10, taxCategory: 'reduced', weightGrams: 400 };
+const lamp: Product = { id: 2, name: 'Lamp', price: money(50), stock: 10, weightGrams: 2000 };
+
+const salesTax: TaxRegion = { code: 'US-NY', rates: { standard: 20, reduced: 5, zero: 0 }, pricesIncludeTax: false };
+const vat: TaxRegion = { code: 'EU-FR', rates: { standard: 20, reduced: 5.5, zero: 0 }, pricesIncludeTax: true };
+
+const byWeight: ShippingPolicy = {
+  rates: {
+    basis: 'weight',
+    bands: [{ upToGrams: 1000, cost: money(5) }, { upToGrams: 5000, cost: money(10) }, { cost: money(25) }]
+  }
+};
+
+function priced(lines: OrderLine[], couponCodes: string[] = []): PriceBreakdown {
+  return createPricingPipeline([subscriptionTierRule(), couponRule('SAVE10', 10)])(lines, { user, couponCodes });
+}
+
+describe('Order totals', () => {
+  it('should charge the discounted prices alone without tax region or shipping policy', () => {
+    const breakdown = defaultPricing([{ product: lamp, quantity: 1 }], {
+      user: { ...user, subscriptionLevel: 'premium' },
+      couponCodes: []
+    });
+
+    expect(calculateOrderTotals(breakdown)).toEqual({
+      subtotal: money(50),
+      discounts: money(5),
+      tax: money(0),
+      taxIncluded: false,
+      shipping: money(0),
+      grandTotal: money(45)
+    });
+  });
+
+  it('should add the tax of each product category on top of exclusive prices', () => {
+    const totals = calculateOrderTotals(
+      priced([
+        { product: book, quantity: 2 },
+        { product: lamp, quantity: 1 }
+      ]),
+      { region: salesTax }
+    );
+
+    expect(totals.tax).toEqual(money(12));
+    expect(totals.grandTotal).toEqual(money(102));
+  });
+
+  it('should report the tax contained in inclusive prices without adding it', () => {
+    const totals = calculateOrderTotals(priced([{ product: lamp, quantity: 1 }]), { region: vat });
+
+    expect(totals).toMatchObject({ tax: money(8.33), taxIncluded: true, grandTotal: money(50) });
+  });
+
+  it('should tax each line after its share of the order discounts', () => {
+    const totals = calculateOrderTotals(
+      priced(
+        [
+          { product: book, quantity: 2 },
+          { product: lamp, quantity: 1 }
+        ],
+        ['SAVE10']
+      ),
+      { region: salesTax }
+    );
+
+    expect(totals).toMatchObject({
+      subtotal: money(90),
+      discounts: money(9),
+      tax: money(10.8),
+      grandTotal: money(91.8)
+    });
+  });
+
+  it.each<[string, OrderLine[], number]>([
+    ['light', [{ product: book, quantity: 2 }], 5],
+    ['medium', [{ product: lamp, quantity: 2 }], 10],
+    ['heavy', [{ product: lamp, quantity: 3 }], 25]
+  ])('should ship a %s order at the cost of its weight band', (_, lines, cost) => {
+    expect(calculateOrderTotals(priced(lines), { shipping: byWeight }).shipping).toEqual(money(cost));
+  });
+
+  it('should ship for free from the threshold, after discounts', () => {
+    const policy: CheckoutPolicy = {
+      shipping: {
+        rates: { basis: 'subtotal', bands: [{ upTo: money(30), cost: money(7) }, { cost: money(4) }] },
+        freeFrom: money(100)
+      }
+    };
+
+    expect(calculateOrderTotals(priced([{ product: book, quantity: 1 }]), policy).shipping).toEqual(money(7));
+    expect(calculateOrderTotals(priced([{ product: lamp, quantity: 1 }]), policy).shipping).toEqual(money(4));
+    expect(calculateOrderTotals(priced([{ product: lamp, quantity: 2 }]), policy).shipping).toEqual(money(0));
+    expect(calculateOrderTotals(priced([{ product: lamp, quantity: 2 }], ['SAVE10']), policy).shipping).toEqual(
+      money(4)
+    );
+  });
+
+  it('should refuse shipping bands which leave heavy orders out', () => {
+    const policy: CheckoutPolicy = {
+      shipping: { rates: { basis: 'weight', bands: [{ upToGrams: 1000, cost: money(5) }] } }
+    };
+
+    expect(() => calculateOrderTotals(priced([{ product: lamp, quantity: 1 }]), policy)).toThrow(ShippingBandError);
+  });
+
+  it('should make the customer pay the grand total of the order', () => {
+    const order = processUserOrderAndSendNotification(
+      user,
+      [{ product: lamp, quantity: 1 }],
+      inMemoryOrderDependencies([lamp]),
+      { checkout: { region: salesTax, shipping: byWeight } }
+    );
+
+    expect(order.totals).toMatchObject({ tax: money(10), shipping: money(10), grandTotal: money(70) });
+    expect(order.totalAmount).toEqual(money(70));
+  });
+});
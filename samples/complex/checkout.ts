@@ -0,0 +1,121 @@
+// ✅ CHECKOUT: From discounted prices to what the customer pays
+// Tax is computed per line, on the price left after every discount, with the rate
+// of the product's tax category in the customer's region; shipping comes on top
+
+import {
+  addMoney,
+  allocateMoney,
+  compareMoney,
+  isZeroMoney,
+  Money,
+  multiplyMoney,
+  subtractMoney,
+  sumMoney,
+  zeroMoney
+} from './money';
+import type { PriceBreakdown } from './pricing';
+
+export type TaxCategory = 'standard' | 'reduced' | 'zero';
+
+export interface TaxRegion {
+  code: string;
+  // Percentages per tax category
+  rates: Record<TaxCategory, number>;
+  // Whether the catalogue prices already contain the tax, as in most of Europe
+  pricesIncludeTax: boolean;
+}
+
+// A band applies up to its limit, inclusive; the last band has no limit
+export type ShippingRates =
+  | { basis: 'weight'; bands: { upToGrams?: number; cost: Money }[] }
+  | { basis: 'subtotal'; bands: { upTo?: Money; cost: Money }[] };
+
+export interface ShippingPolicy {
+  rates: ShippingRates;
+  // Orders of at least this amount, after discounts, ship for free
+  freeFrom?: Money;
+}
+
+// Without a region, no tax is charged; without a shipping policy, shipping is free
+export interface CheckoutPolicy {
+  region?: TaxRegion;
+  shipping?: ShippingPolicy;
+}
+
+export interface OrderTotals {
+  subtotal: Money;
+  discounts: Money;
+  tax: Money;
+  // Tax already contained in the discounted prices is not added again to the grand total
+  taxIncluded: boolean;
+  shipping: Money;
+  grandTotal: Money;
+}
+
+// ✅ TAX
+
+// The price of each line after its own discounts and its share of the order discounts
+function netLinePrices(breakdown: PriceBreakdown): Money[] {
+  const linePrices = breakdown.lines.map((line) => line.price);
+  const orderDiscount = sumMoney(
+    breakdown.orderAdjustments.map((adjustment) => adjustment.amount),
+    breakdown.total.currency
+  );
+  if (isZeroMoney(orderDiscount)) {
+    return linePrices;
+  }
+
+  const shares = allocateMoney(
+    orderDiscount,
+    linePrices.map((price) => price.amount)
+  );
+  return linePrices.map((price, index) => addMoney(price, shares[index] ?? zeroMoney(price.currency)));
+}
+
+function lineTax(price: Money, rate: number, pricesIncludeTax: boolean): Money {
+  return pricesIncludeTax
+    ? subtractMoney(price, multiplyMoney(price, 100 / (100 + rate)))
+    : multiplyMoney(price, rate / 100);
+}
+
+export function calculateTax(breakdown: PriceBreakdown, region: TaxRegion): Money {
+  const netPrices = netLinePrices(breakdown);
+  return sumMoney(
+    breakdown.lines.map((line, index) => {
+      const rate = region.rates[line.product.taxCategory ?? 'standard'];
+      return lineTax(netPrices[index] ?? line.price, rate, region.pricesIncludeTax);
+    }),
+    breakdown.total.currency
+  );
+}
+
+// ✅ SHIPPING
+
+export class ShippingBandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShippingBandError';
+  }
+}
+
+export function calculateShipping(breakdown: PriceBreakdown, policy: ShippingPolicy): Money {
+  if (policy.freeFrom && compareMoney(breakdown.total, policy.freeFrom) >= 0) {
+    return zeroMoney(breakdown.total.currency);
+  }
+
+  const { rates } = policy;
+  const band =
+    rates.basis === 'weight'
+      ? rates.bands.find((candidate) => candidate.upToGrams === undefined || weightOf(breakdown) <= candidate.upToGrams)
+      : rates.bands.find(
+          (candidate) => candidate.upTo === undefined || compareMoney(breakdown.total, candidate.upTo) <= 0
+        );
+  if (!band) {
+    throw new ShippingBandError('No shipping band for this order: the last band must apply without limit');
+  }
+  return band.cost;
+}
+
+function weightOf(breakdown: PriceBreakdown): number {
+  return breakdown.lines.reduce((total, line) => total + (line.product.weightGrams ?? 0) * line.quantity, 0);
+}
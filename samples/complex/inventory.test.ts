@@ -0,0 +1,144 @@
+import { InMemoryInventory, InsufficientStockError, UnknownReservationError } from './inventory';
+import { money } from './money';
+import { InMemoryOutbox, NotificationService } from './notifications';
+import { OutboxDispatcher } from './outbox';
+import {
+  cancelOrder,
+  OrderDependencies,
+  orderEffectHandlers,
+  processUserOrderAndSendNotification,
+  Product
+} from './refactored-divided';
+import { inMemoryOrderDependencies } from './test-dependencies';
+import { testUser } from './test-fixtures';
+
+const user = testUser();
+
+const book: Product = { id: 1, name: 'Book', price: money(20), stock: 5 };
+const lamp: Product = { id: 2, name: 'Lamp', price: money(50), stock: 1 };
+const pen: Product = { id: 3, name: 'Pen', price: money(2), stock: 0 };
+
+describe('In-memory inventory', () => {
+  let inventory: InMemoryInventory;
+
+  beforeEach(() => {
+    inventory = InMemoryInventory.fromProducts([book, lamp, pen]);
+  });
+
+  it('should decrement the stock of every reserved product', () => {
+    const reservation = inventory.reserve([
+      { product: book, quantity: 2 },
+      { product: lamp, quantity: 1 }
+    ]);
+
+    expect(reservation.quantities).toEqual([
+      { productId: book.id, quantity: 2 },
+      { productId: lamp.id, quantity: 1 }
+    ]);
+    expect([inventory.available(book.id), inventory.available(lamp.id)]).toEqual([3, 0]);
+  });
+
+  it('should add up the quantities of a product appearing twice in the basket', () => {
+    expect(() =>
+      inventory.reserve([
+        { product: book, quantity: 3 },
+        { product: book, quantity: 3 }
+      ])
+    ).toThrow(InsufficientStockError);
+  });
+
+  it('should report every shortage at once and reserve nothing', () => {
+    const reserve = () =>
+      inventory.reserve([
+        { product: book, quantity: 1 },
+        { product: lamp, quantity: 2 },
+        { product: pen, quantity: 1 }
+      ]);
+
+    expect(reserve).toThrow(
+      new InsufficientStockError([
+        { productId: lamp.id, productName: 'Lamp', requested: 2, available: 1 },
+        { productId: pen.id, productName: 'Pen', requested: 1, available: 0 }
+      ])
+    );
+    expect(reserve).toThrow(
+      'Insufficient stock:\n  - Lamp: 2 requested, 1 available\n  - Pen: 1 requested, 0 available'
+    );
+    expect(inventory.available(book.id)).toBe(5);
+  });
+
+  it('should give the stock back when a reservation is released, only once', () => {
+    const reservation = inventory.reserve([{ product: book, quantity: 5 }]);
+
+    inventory.release(reservation.id);
+
+    expect(inventory.available(book.id)).toBe(5);
+    expect(() => inventory.release(reservation.id)).toThrow(new UnknownReservationError(reservation.id));
+  });
+});
+
+describe('Order processing with inventory', () => {
+  let outbox: InMemoryOutbox;
+
+  beforeEach(() => {
+    outbox = new InMemoryOutbox();
+  });
+
+  function orderServices(inventory: InMemoryInventory): OrderDependencies {
+    return inMemoryOrderDependencies([], { inventory, notifications: new NotificationService(outbox) });
+  }
+
+  it('should reserve the stock of an order and release it when the order is cancelled', () => {
+    const inventory = InMemoryInventory.fromProducts([book]);
+
+    const services = orderServices(inventory);
+    const order = processUserOrderAndSendNotification(user, [{ product: book, quantity: 4 }], services);
+    expect(inventory.available(book.id)).toBe(1);
+
+    expect(cancelOrder(order.id, services).status).toBe('cancelled');
+    expect(services.orders.findById(order.id)?.status).toBe('cancelled');
+    expect(inventory.available(book.id)).toBe(5);
+  });
+
+  it('should refuse an order when the stock is short', () => {
+    const inventory = InMemoryInventory.fromProducts([lamp]);
+
+    expect(() =>
+      processUserOrderAndSendNotification(user, [{ product: lamp, quantity: 2 }], orderServices(inventory))
+    ).toThrow(InsufficientStockError);
+    expect(outbox.sent).toEqual([]);
+  });
+
+  it('should keep an order whose confirmation cannot be rendered and dead-letter the message', () => {
+    const inventory = InMemoryInventory.fromProducts([book]);
+    const services = inMemoryOrderDependencies([], { inventory, notifications: new NotificationService(outbox, {}) });
+
+    const order = processUserOrderAndSendNotification(user, [{ product: book, quantity: 3 }], services);
+    new OutboxDispatcher(
+      services.outbox,
+      orderEffectHandlers(services, () => user),
+      {
+        maxAttempts: 1
+      }
+    ).dispatchDue();
+
+    expect(services.orders.findById(order.id)).toEqual(order);
+    expect(inventory.available(book.id)).toBe(2);
+    expect(services.outbox.deadLetters()).toEqual([
+      expect.objectContaining({
+        orderId: order.id,
+        effect: expect.objectContaining({ type: 'send-message', template: 'order-confirmation' }),
+        lastError: 'Unknown template "order-confirmation"'
+      })
+    ]);
+    expect(outbox.sent).toEqual([]);
+  });
+
+  it('should refuse quantities which are not positive whole numbers', () => {
+    const inventory = InMemoryInventory.fromProducts([book]);
+
+    expect(() =>
+      processUserOrderAndSendNotification(user, [{ product: book, quantity: 0 }], orderServices(inventory))
+    ).toThrow('Invalid quantity 0 for product Book');
+  });
+});
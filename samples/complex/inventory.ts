@@ -0,0 +1,114 @@
+// ✅ INVENTORY: Stock is reserved for a whole order or not at all
+// Quantities of the same product are added up before checking the stock,
+// and every shortage is reported at once
+
+import type { OrderLine } from './refactored-divided';
+
+export interface Shortage {
+  productId: number;
+  productName: string;
+  requested: number;
+  available: number;
+}
+
+export interface ReservedQuantity {
+  productId: number;
+  quantity: number;
+}
+
+export interface Reservation {
+  id: string;
+  quantities: ReservedQuantity[];
+}
+
+export interface InventoryService {
+  available(productId: number): number;
+  reserve(lines: OrderLine[]): Reservation;
+  release(reservationId: string): void;
+}
+
+export class InsufficientStockError extends Error {
+  constructor(public readonly shortages: Shortage[]) {
+    super(
+      `Insufficient stock:\n${shortages
+        .map(
+          (shortage) => `  - ${shortage.productName}: ${shortage.requested} requested, ${shortage.available} available`
+        )
+        .join('\n')}`
+    );
+    this.name = 'InsufficientStockError';
+  }
+}
+
+export class UnknownReservationError extends Error {
+  constructor(public readonly reservationId: string) {
+    super(`Unknown reservation ${reservationId}`);
+    this.name = 'UnknownReservationError';
+  }
+}
+
+// Quantities per product, in the order the products first appear in the basket
+function requestedQuantities(lines: OrderLine[]): Map<number, { productName: string; quantity: number }> {
+  const requested = new Map<number, { productName: string; quantity: number }>();
+  for (const line of lines) {
+    const entry = requested.get(line.product.id) ?? { productName: line.product.name, quantity: 0 };
+    entry.quantity += line.quantity;
+    requested.set(line.product.id, entry);
+  }
+  return requested;
+}
+
+export class InMemoryInventory implements InventoryService {
+  private readonly stock: Map<number, number>;
+  private readonly reservations = new Map<string, Reservation>();
+  private nextReservation = 1;
+
+  constructor(stock: Iterable<[productId: number, quantity: number]>) {
+    this.stock = new Map(stock);
+  }
+
+  // Starts from the stock recorded on the catalogue
+  static fromProducts(products: { id: number; stock: number }[]): InMemoryInventory {
+    return new InMemoryInventory(products.map((product) => [product.id, product.stock]));
+  }
+
+  available(productId: number): number {
+    return this.stock.get(productId) ?? 0;
+  }
+
+  reserve(lines: OrderLine[]): Reservation {
+    const requested = requestedQuantities(lines);
+
+    const shortages: Shortage[] = [];
+    for (const [productId, { productName, quantity }] of requested) {
+      const available = this.available(productId);
+      if (quantity > available) {
+        shortages.push({ productId, productName, requested: quantity, available });
+      }
+    }
+    if (shortages.length > 0) {
+      throw new InsufficientStockError(shortages);
+    }
+
+    const quantities = [...requested].map(([productId, { quantity }]) => ({ productId, quantity }));
+    for (const { productId, quantity } of quantities) {
+      this.stock.set(productId, this.available(productId) - quantity);
+    }
+
+    const reservation = { id: `reservation-${this.nextReservation++}`, quantities };
+    this.reservations.set(reservation.id, reservation);
+    return reservation;
+  }
+
+  release(reservationId: string): void {
+    const reservation = this.reservations.get(reservationId);
+    if (!reservation) {
+      throw new UnknownReservationError(reservationId);
+    }
+
+    for (const { productId, quantity } of reservation.quantities) {
+      this.stock.set(productId, this.available(productId) + quantity);
+    }
+    this.reservations.delete(reservationId);
+  }
+}
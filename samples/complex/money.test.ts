@@ -0,0 +1,61 @@
+import {
+  addMoney,
+  allocateMoney,
+  CurrencyMismatchError,
+  formatMoney,
+  fromMinorUnits,
+  money,
+  multiplyMoney,
+  percentageOf,
+  RoundingMode,
+  sumMoney
+} from './money';
+import { calculateOrderTotal, Product } from './refactored-divided';
+
+describe('Money', () => {
+  it('should store amounts as whole minor units of their currency', () => {
+    expect(money(19.99)).toEqual({ amount: 1999, currency: 'USD' });
+    expect(money(1000, 'JPY')).toEqual({ amount: 1000, currency: 'JPY' });
+    expect(() => fromMinorUnits(10.5, 'USD')).toThrow(RangeError);
+    expect(() => money(1, 'XYZW')).toThrow(RangeError);
+  });
+
+  it('should add exactly where floating-point numbers drift', () => {
+    const prices = Array.from({ length: 1000 }, () => money(0.1));
+
+    expect(sumMoney(prices)).toEqual(money(100));
+    expect(addMoney(money(0.1), money(0.2))).toEqual(money(0.3));
+  });
+
+  it('should refuse to add amounts in different currencies', () => {
+    expect(() => addMoney(money(1, 'USD'), money(1, 'EUR'))).toThrow(new CurrencyMismatchError('USD', 'EUR'));
+  });
+
+  it.each<[RoundingMode, number, number]>([
+    ['half-up', 125, -125],
+    ['half-even', 124, -124],
+    ['floor', 124, -125],
+    ['ceiling', 125, -124]
+  ])('should round half a cent with %s', (rounding, positive, negative) => {
+    expect(multiplyMoney(fromMinorUnits(249, 'USD'), 0.5, rounding).amount).toBe(positive);
+    expect(multiplyMoney(fromMinorUnits(-249, 'USD'), 0.5, rounding).amount).toBe(negative);
+  });
+
+  it('should allocate an amount in proportion without losing a cent', () => {
+    expect(allocateMoney(money(1), [1, 1, 1])).toEqual([money(0.34), money(0.33), money(0.33)]);
+    expect(allocateMoney(money(-9), [40, 50])).toEqual([money(-4), money(-5)]);
+    expect(() => allocateMoney(money(1), [0, 0])).toThrow(RangeError);
+  });
+
+  it('should format amounts with the symbol and digits of their currency', () => {
+    expect(formatMoney(money(1234.5))).toBe('$1,234.50');
+    expect(formatMoney(money(1234, 'JPY'))).toBe('¥1,234');
+  });
+
+  it('should total an order without drifting by cents', () => {
+    const pen: Product = { id: 1, name: 'Pen', price: money(1.15), stock: 30 };
+
+    expect(calculateOrderTotal([{ product: pen, quantity: 30 }], 10)).toEqual(money(30.9));
+    expect(percentageOf(money(1.15), 10, 'half-even')).toEqual(money(0.12));
+  });
+});
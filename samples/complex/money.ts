@@ -0,0 +1,158 @@
+// ✅ MONEY: Integer minor units and a currency code instead of floating-point totals
+// A plain value, so orders holding money can still be compared, copied and stored as JSON
+
+export interface Money {
+  // In the smallest unit of the currency: cents for USD, yen for JPY
+  readonly amount: number;
+  readonly currency: string;
+}
+
+// half-up rounds halves away from zero, half-even rounds them to the even neighbour
+export type RoundingMode = 'half-up' | 'half-even' | 'floor' | 'ceiling';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export class CurrencyMismatchError extends Error {
+  constructor(
+    public readonly expected: string,
+    public readonly actual: string
+  ) {
+    super(`Cannot combine ${expected} with ${actual}`);
+    this.name = 'CurrencyMismatchError';
+  }
+}
+
+// The number of minor units of a currency, which also rejects unknown currency codes
+export function minorUnitDigits(currency: string): number {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+export function roundMinor(value: number, rounding: RoundingMode): number {
+  // Drops floating-point noise such as 1998.9999999999998 before deciding which way to round
+  const exact = Number(value.toFixed(9));
+  const floor = Math.floor(exact);
+  let rounded: number;
+  switch (rounding) {
+    case 'floor':
+      rounded = floor;
+      break;
+    case 'ceiling':
+      rounded = Math.ceil(exact);
+      break;
+    case 'half-up':
+      rounded = exact < 0 ? -Math.floor(-exact + 0.5) : Math.floor(exact + 0.5);
+      break;
+    case 'half-even': {
+      const fraction = exact - floor;
+      rounded = fraction === 0.5 ? (floor % 2 === 0 ? floor : floor + 1) : Math.round(exact);
+      break;
+    }
+  }
+  // Avoids -0, which is a different value for Object.is and toEqual
+  return rounded === 0 ? 0 : rounded;
+}
+
+// ✅ CONSTRUCTION
+
+export function fromMinorUnits(amount: number, currency: string): Money {
+  if (!Number.isSafeInteger(amount)) {
+    throw new RangeError(`Money amounts are whole minor units, got ${amount}`);
+  }
+  minorUnitDigits(currency);
+  return { amount, currency };
+}
+
+export function money(major: number, currency: string = DEFAULT_CURRENCY, rounding: RoundingMode = 'half-up'): Money {
+  return fromMinorUnits(roundMinor(major * 10 ** minorUnitDigits(currency), rounding), currency);
+}
+
+export function zeroMoney(currency: string = DEFAULT_CURRENCY): Money {
+  return fromMinorUnits(0, currency);
+}
+
+// ✅ ARITHMETIC: Exact on minor units, rounding only where a fraction can appear
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new CurrencyMismatchError(a.currency, b.currency);
+  }
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return fromMinorUnits(a.amount + b.amount, a.currency);
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return fromMinorUnits(a.amount - b.amount, a.currency);
+}
+
+export function negateMoney(value: Money): Money {
+  return fromMinorUnits(-value.amount || 0, value.currency);
+}
+
+export function sumMoney(amounts: Money[], currency: string = DEFAULT_CURRENCY): Money {
+  return amounts.reduce(addMoney, zeroMoney(currency));
+}
+
+export function multiplyMoney(value: Money, factor: number, rounding: RoundingMode = 'half-up'): Money {
+  return fromMinorUnits(roundMinor(value.amount * factor, rounding), value.currency);
+}
+
+export function percentageOf(value: Money, percent: number, rounding: RoundingMode = 'half-up'): Money {
+  return multiplyMoney(value, percent / 100, rounding);
+}
+
+// Splits an amount in proportion to the weights, without losing a minor unit:
+// the units left over by rounding down go to the largest remainders
+export function allocateMoney(value: Money, weights: number[]): Money[] {
+  const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+  if (totalWeight <= 0 || weights.some((weight) => weight < 0)) {
+    throw new RangeError('Cannot allocate money without positive weights');
+  }
+
+  const units = Math.abs(value.amount);
+  const exactShares = weights.map((weight) => (units * weight) / totalWeight);
+  const shares = exactShares.map(Math.floor);
+  let leftOver = units - shares.reduce((total, share) => total + share, 0);
+  const byRemainder = exactShares
+    .map((exact, index) => ({ index, remainder: exact - Math.floor(exact) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (leftOver === 0) {
+      break;
+    }
+    shares[index] = (shares[index] ?? 0) + 1;
+    leftOver--;
+  }
+
+  return shares.map((share) => fromMinorUnits(value.amount < 0 ? -share || 0 : share, value.currency));
+}
+
+// ✅ COMPARISON
+
+export function compareMoney(a: Money, b: Money): number {
+  assertSameCurrency(a, b);
+  return Math.sign(a.amount - b.amount);
+}
+
+export function minMoney(first: Money, ...others: Money[]): Money {
+  return others.reduce((lowest, value) => (compareMoney(value, lowest) < 0 ? value : lowest), first);
+}
+
+export function maxMoney(first: Money, ...others: Money[]): Money {
+  return others.reduce((highest, value) => (compareMoney(value, highest) > 0 ? value : highest), first);
+}
+
+export function isZeroMoney(value: Money): boolean {
+  return value.amount === 0;
+}
+
+// ✅ FORMATTING
+
+export function formatMoney(value: Money): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: value.currency }).format(
+    value.amount / 10 ** minorUnitDigits(value.currency)
+  );
+}
@@ -0,0 +1,149 @@
+import { money } from './money';
+import {
+  ConsoleNotifier,
+  InMemoryOutbox,
+  Message,
+  NotificationService,
+  renderTemplate,
+  TemplateError,
+  Templates
+} from './notifications';
+import { OutboxDispatcher } from './outbox';
+import { orderEffectHandlers, processUserOrderAndSendNotification, Product } from './refactored-divided';
+import { inMemoryOrderDependencies } from './test-dependencies';
+import { testUser } from './test-fixtures';
+
+const freeUser = testUser({ phone: '+15550001' });
+
+const premiumUser = testUser({
+  id: 2,
+  name: 'Grace',
+  email: 'grace@example.com',
+  subscriptionLevel: 'premium',
+  phone: '+15550001'
+});
+
+const templates: Templates = {
+  greeting: {
+    email: { subject: 'Hello {{name}}', body: 'Welcome, {{name}}!' },
+    sms: { body: 'Hi {{name}}' }
+  }
+};
+
+describe('Notification templates', () => {
+  it('should replace every variable', () => {
+    expect(renderTemplate('{{greeting}}, {{name}}! {{greeting}} again', { greeting: 'Hi', name: 'Ada' })).toBe(
+      'Hi, Ada! Hi again'
+    );
+  });
+
+  it('should refuse to render with a missing variable', () => {
+    expect(() => renderTemplate('Total: {{total}}', {})).toThrow(
+      new TemplateError('Missing template variable "total"')
+    );
+  });
+});
+
+describe('Notification service', () => {
+  let outbox: InMemoryOutbox;
+  let notifications: NotificationService;
+
+  beforeEach(() => {
+    outbox = new InMemoryOutbox();
+    notifications = new NotificationService(outbox, templates);
+  });
+
+  it('should only text paying subscribers by default', () => {
+    notifications.notify(freeUser, 'greeting', { name: 'Ada' });
+    notifications.notify(premiumUser, 'greeting', { name: 'Grace' });
+
+    expect(outbox.sent).toEqual<Message[]>([
+      { channel: 'email', template: 'greeting', to: 'ada@example.com', subject: 'Hello Ada', body: 'Welcome, Ada!' },
+      {
+        channel: 'email',
+        template: 'greeting',
+        to: 'grace@example.com',
+        subject: 'Hello Grace',
+        body: 'Welcome, Grace!'
+      },
+      { channel: 'sms', template: 'greeting', to: '+15550001', body: 'Hi Grace' }
+    ]);
+  });
+
+  it('should deliver on the channels the user prefers', () => {
+    notifications.setPreferences(freeUser.id, { channels: ['sms', 'push'], optedOut: [] });
+
+    notifications.notify(freeUser, 'greeting', { name: 'Ada' });
+
+    expect(outbox.sent.map((message) => [message.channel, message.to])).toEqual([['sms', '+15550001']]);
+  });
+
+  it('should send nothing from a template the user opted out of', () => {
+    notifications.setPreferences(premiumUser.id, { channels: ['email', 'sms'], optedOut: ['greeting'] });
+
+    expect(notifications.notify(premiumUser, 'greeting', { name: 'Grace' })).toEqual([]);
+    expect(outbox.sent).toEqual([]);
+  });
+
+  it('should send nothing when one of the channels cannot be rendered', () => {
+    expect(() => notifications.notify(premiumUser, 'greeting', {})).toThrow(TemplateError);
+    expect(outbox.sent).toEqual([]);
+  });
+
+  it('should refuse an unknown template', () => {
+    expect(() => notifications.notify(freeUser, 'farewell', {})).toThrow('Unknown template "farewell"');
+  });
+
+  it('should choose the channels of a message before rendering it on each of them', () => {
+    notifications.setPreferences(premiumUser.id, { channels: ['email', 'push', 'sms'], optedOut: [] });
+
+    expect(notifications.channelsOf(premiumUser, 'farewell')).toEqual(['email', 'sms']);
+    expect(() => notifications.renderOn('email', premiumUser, 'farewell', {})).toThrow(
+      new TemplateError('Unknown template "farewell"')
+    );
+    expect(notifications.renderOn('sms', premiumUser, 'greeting', { name: 'Grace' })).toEqual({
+      channel: 'sms',
+      template: 'greeting',
+      to: '+15550001',
+      body: 'Hi Grace'
+    });
+    expect(notifications.renderOn('push', { ...premiumUser, pushToken: 'token-1' }, 'greeting', {})).toBeUndefined();
+  });
+
+  it('should print messages to the console in the legacy format', () => {
+    const lines: string[] = [];
+    new NotificationService(new ConsoleNotifier((line) => lines.push(line)), templates).notify(
+      premiumUser,
+      'greeting',
+      {
+        name: 'Grace'
+      }
+    );
+
+    expect(lines).toEqual([
+      '[EMAIL] To: grace@example.com',
+      '[EMAIL] Subject: Hello Grace',
+      '[EMAIL] Body: Welcome, Grace!',
+      '[SMS] To: +15550001',
+      '[SMS] Message: Hi Grace'
+    ]);
+  });
+});
+
+describe('Order confirmation', () => {
+  it('should tell the customer the order total', () => {
+    const book: Product = { id: 1, name: 'Book', price: money(19.99), stock: 10 };
+    const outbox = new InMemoryOutbox();
+
+    const dependencies = inMemoryOrderDependencies([book], { notifications: new NotificationService(outbox) });
+
+    processUserOrderAndSendNotification(premiumUser, [{ product: book, quantity: 2 }], dependencies);
+    new OutboxDispatcher(
+      dependencies.outbox,
+      orderEffectHandlers(dependencies, () => premiumUser)
+    ).dispatchDue();
+
+    expect(outbox.sentTo('+15550001').map((message) => message.body)).toEqual(['Order confirmed! Total: $35.98']);
+    expect(outbox.sentTo('grace@example.com')[0]?.body).toContain('Dear Grace,\n\nYour order has been received.');
+  });
+});
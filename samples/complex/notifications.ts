@@ -0,0 +1,182 @@
+// ✅ NOTIFICATIONS: Rendered from named templates, delivered on the channels each user chose
+// Notifiers only deliver messages; what is sent and to whom is decided before they are called
+
+import type { User } from './refactored-divided';
+
+export type Channel = 'email' | 'sms' | 'push';
+
+export interface Message {
+  channel: Channel;
+  template: string;
+  to: string;
+  subject?: string;
+  body: string;
+}
+
+export interface Notifier {
+  send(message: Message): void;
+}
+
+export interface ChannelTemplate {
+  subject?: string;
+  body: string;
+}
+
+// A template has a version per channel it can be sent on
+export type Templates = Record<string, Partial<Record<Channel, ChannelTemplate>>>;
+
+export interface NotificationPreferences {
+  channels: Channel[];
+  // Templates the user never wants to receive, whatever the channel
+  optedOut: string[];
+}
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+export const ORDER_TEMPLATES: Templates = {
+  'order-confirmation': {
+    email: {
+      subject: 'Order Confirmation #{{orderNumber}}',
+      body: 'Dear {{name}},\n\nYour order has been received.\nTotal: {{total}}\n\nThank you for your purchase!'
+    },
+    sms: { body: 'Order confirmed! Total: {{total}}' },
+    push: { body: 'Your order #{{orderNumber}} of {{total}} is confirmed' }
+  }
+};
+
+// ✅ TEMPLATES: Every {{variable}} must be given, so no message goes out half-rendered
+
+export function renderTemplate(text: string, variables: Record<string, string>): string {
+  return text.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    const value = variables[name];
+    if (value === undefined) {
+      throw new TemplateError(`Missing template variable "${name}"`);
+    }
+    return value;
+  });
+}
+
+function addressOf(user: User, channel: Channel): string | undefined {
+  switch (channel) {
+    case 'email':
+      return user.email;
+    case 'sms':
+      return user.phone;
+    case 'push':
+      return user.pushToken;
+  }
+}
+
+// Paying subscribers get text messages, as before preferences could be set
+export function defaultPreferences(user: User): NotificationPreferences {
+  return { channels: user.subscriptionLevel === 'free' ? ['email'] : ['email', 'sms'], optedOut: [] };
+}
+
+// ✅ DELIVERY: One message per preferred channel the template and the user's addresses allow
+
+export class NotificationService {
+  private readonly preferences = new Map<number, NotificationPreferences>();
+
+  constructor(
+    private readonly notifier: Notifier,
+    private readonly templates: Templates = ORDER_TEMPLATES
+  ) {}
+
+  setPreferences(userId: number, preferences: NotificationPreferences): void {
+    this.preferences.set(userId, preferences);
+  }
+
+  preferencesOf(user: User): NotificationPreferences {
+    return this.preferences.get(user.id) ?? defaultPreferences(user);
+  }
+
+  notify(user: User, templateName: string, variables: Record<string, string>): Message[] {
+    const messages = this.render(user, templateName, variables);
+    // Rendered first, so that a template error sends nothing rather than part of the messages
+    messages.forEach((message) => this.deliver(message));
+    return messages;
+  }
+
+  // The messages notify would send, for callers which deliver them later
+  render(user: User, templateName: string, variables: Record<string, string>): Message[] {
+    this.templateNamed(templateName);
+    return this.channelsOf(user, templateName).flatMap(
+      (channel) => this.renderOn(channel, user, templateName, variables) ?? []
+    );
+  }
+
+  // The channels a template would be sent on to the user, chosen without rendering it,
+  // for callers which render each message only when they deliver it
+  channelsOf(user: User, templateName: string): Channel[] {
+    const preferences = this.preferencesOf(user);
+    if (preferences.optedOut.includes(templateName)) {
+      return [];
+    }
+    return preferences.channels.filter((channel) => addressOf(user, channel) !== undefined);
+  }
+
+  // Nothing when the template has no version for the channel or the user no address on it
+  renderOn(channel: Channel, user: User, templateName: string, variables: Record<string, string>): Message | undefined {
+    const channelTemplate = this.templateNamed(templateName)[channel];
+    const to = addressOf(user, channel);
+    if (!channelTemplate || !to) {
+      return undefined;
+    }
+
+    const message: Message = {
+      channel,
+      template: templateName,
+      to,
+      body: renderTemplate(channelTemplate.body, variables)
+    };
+    if (channelTemplate.subject !== undefined) {
+      message.subject = renderTemplate(channelTemplate.subject, variables);
+    }
+    return message;
+  }
+
+  deliver(message: Message): void {
+    this.notifier.send(message);
+  }
+
+  private templateNamed(templateName: string): Partial<Record<Channel, ChannelTemplate>> {
+    const template = this.templates[templateName];
+    if (!template) {
+      throw new TemplateError(`Unknown template "${templateName}"`);
+    }
+    return template;
+  }
+}
+
+// ✅ NOTIFIERS
+
+export class ConsoleNotifier implements Notifier {
+  constructor(private readonly log: (line: string) => void = console.log) {}
+
+  send(message: Message): void {
+    const prefix = `[${message.channel.toUpperCase()}]`;
+    this.log(`${prefix} To: ${message.to}`);
+    if (message.subject !== undefined) {
+      this.log(`${prefix} Subject: ${message.subject}`);
+    }
+    this.log(`${prefix} ${message.channel === 'email' ? 'Body' : 'Message'}: ${message.body}`);
+  }
+}
+
+// Keeps every message instead of sending it, for tests to assert what was sent to whom
+export class InMemoryOutbox implements Notifier {
+  readonly sent: Message[] = [];
+
+  send(message: Message): void {
+    this.sent.push(message);
+  }
+
+  sentTo(address: string): Message[] {
+    return this.sent.filter((message) => message.to === address);
+  }
+}
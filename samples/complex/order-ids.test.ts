@@ -0,0 +1,87 @@
+import { InMemoryAnalytics } from './analytics';
+import { money } from './money';
+import { InMemoryOutbox, NotificationService } from './notifications';
+import { randomIds } from './order-ids';
+import { OutboxDispatcher } from './outbox';
+import {
+  Order,
+  OrderDependencies,
+  orderEffectHandlers,
+  processUserOrderAndSendNotification,
+  Product,
+  User
+} from './refactored-divided';
+import { inMemoryOrderDependencies } from './test-dependencies';
+import { testUser } from './test-fixtures';
+
+const book: Product = { id: 1, name: 'Book', price: money(20), stock: 10 };
+
+describe('Order identity', () => {
+  let user: User;
+  let outbox: InMemoryOutbox;
+  let dependencies: OrderDependencies;
+  let analytics: InMemoryAnalytics;
+
+  beforeEach(() => {
+    user = testUser();
+    outbox = new InMemoryOutbox();
+    analytics = new InMemoryAnalytics();
+    dependencies = inMemoryOrderDependencies([book], { notifications: new NotificationService(outbox), analytics });
+  });
+
+  // Submits an order and delivers its side effects
+  function submit(customer: User = user, idempotencyKey?: string): Order {
+    const options = idempotencyKey === undefined ? {} : { idempotencyKey };
+    const order = processUserOrderAndSendNotification(
+      customer,
+      [{ product: book, quantity: 1 }],
+      dependencies,
+      options
+    );
+    new OutboxDispatcher(
+      dependencies.outbox,
+      orderEffectHandlers(dependencies, () => customer)
+    ).dispatchDue();
+    return order;
+  }
+
+  it('should number orders with the injected generator', () => {
+    expect([submit().id, submit().id]).toEqual(['order-1', 'order-2']);
+    expect(outbox.sent.map((message) => message.subject)).toEqual([
+      'Order Confirmation #order-1',
+      'Order Confirmation #order-2'
+    ]);
+  });
+
+  it('should return the original order when a submission is replayed', () => {
+    const first = submit(user, 'checkout-42');
+    const lastLogin = user.lastLoginDate;
+
+    const replayed = submit(user, 'checkout-42');
+
+    expect(replayed).toEqual(first);
+    expect(outbox.sent).toHaveLength(1);
+    expect(analytics.events).toHaveLength(1);
+    expect(dependencies.inventory.available(book.id)).toBe(9);
+    expect(user.lastLoginDate).toBe(lastLogin);
+  });
+
+  it('should keep the idempotency keys of different users apart', () => {
+    const other: User = { ...user, id: 2, email: 'grace@example.com' };
+
+    expect(submit(user, 'checkout-42').id).not.toBe(submit(other, 'checkout-42').id);
+  });
+
+  it('should create a new order for each submission without a key', () => {
+    submit();
+    submit();
+
+    expect(dependencies.inventory.available(book.id)).toBe(8);
+  });
+
+  it('should generate unique random ids', () => {
+    const ids = randomIds();
+
+    expect(ids()).not.toBe(ids());
+  });
+});
@@ -0,0 +1,34 @@
+// ✅ ORDER IDENTITY: Where order ids come from, and which submissions already created an order
+// Tests inject sequential ids; an idempotency key lets a client retry without ordering twice
+
+import { randomUUID } from 'node:crypto';
+
+export type IdGenerator = () => string;
+
+export function sequentialIds(prefix = 'order-'): IdGenerator {
+  let next = 1;
+  return () => `${prefix}${next++}`;
+}
+
+export function randomIds(): IdGenerator {
+  return () => randomUUID();
+}
+
+// Remembers the id of the order each key created; keys are scoped to a user,
+// so two customers cannot collide on the same key
+export interface IdempotencyStore {
+  find(userId: number, key: string): string | undefined;
+  remember(userId: number, key: string, orderId: string): void;
+}
+
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private readonly orderIds = new Map<string, string>();
+
+  find(userId: number, key: string): string | undefined {
+    return this.orderIds.get(`${userId}:${key}`);
+  }
+
+  remember(userId: number, key: string, orderId: string): void {
+    this.orderIds.set(`${userId}:${key}`, orderId);
+  }
+}
@@ -0,0 +1,60 @@
+import { money } from './money';
+import { availableActions, IllegalTransitionError, OrderAction, transitionOrder } from './order-lifecycle';
+import { createOrder, defaultPricing, Order, OrderLine } from './refactored-divided';
+import { testUser } from './test-fixtures';
+
+const user = testUser();
+
+const lines: OrderLine[] = [{ product: { id: 1, name: 'Book', price: money(20), stock: 10 }, quantity: 1 }];
+
+function newOrder(): Order {
+  return createOrder('order-1', user, lines, defaultPricing(lines, { user, couponCodes: [] }), 'reservation-1');
+}
+
+function orderAfter(...actions: OrderAction[]): Order {
+  return actions.reduce((order, action) => transitionOrder(order, action), newOrder());
+}
+
+describe('Order lifecycle', () => {
+  it('should move an order from confirmation to delivery and keep a timestamped history', () => {
+    let now = 0;
+    const clock = () => new Date(++now);
+    const order = newOrder();
+
+    transitionOrder(order, 'confirm', clock);
+    transitionOrder(order, 'ship', clock);
+    transitionOrder(order, 'deliver', clock);
+
+    expect(order.status).toBe('delivered');
+    expect(order.history).toEqual([
+      { action: 'confirm', from: 'pending', to: 'confirmed', at: new Date(1) },
+      { action: 'ship', from: 'confirmed', to: 'shipped', at: new Date(2) },
+      { action: 'deliver', from: 'shipped', to: 'delivered', at: new Date(3) }
+    ]);
+  });
+
+  it.each<[string, OrderAction[], OrderAction[]]>([
+    ['pending', [], ['confirm', 'cancel']],
+    ['confirmed', ['confirm'], ['ship', 'cancel']],
+    ['shipped', ['confirm', 'ship'], ['deliver']],
+    ['delivered', ['confirm', 'ship', 'deliver'], ['return']],
+    ['cancelled', ['cancel'], []],
+    ['returned', ['confirm', 'ship', 'deliver', 'return'], []]
+  ])('should only allow the next steps of a %s order', (_, history, expected) => {
+    expect(availableActions(orderAfter(...history))).toEqual(expected);
+  });
+
+  it('should refuse to ship an unconfirmed order', () => {
+    const order = newOrder();
+
+    expect(() => transitionOrder(order, 'ship')).toThrow(new IllegalTransitionError('ship', 'pending'));
+    expect(order.status).toBe('pending');
+    expect(order.history).toEqual([]);
+  });
+
+  it('should refuse to cancel a delivered order', () => {
+    const order = orderAfter('confirm', 'ship', 'deliver');
+
+    expect(() => transitionOrder(order, 'cancel')).toThrow('Cannot cancel an order which is delivered');
+  });
+});
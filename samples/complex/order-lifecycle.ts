@@ -0,0 +1,61 @@
+// ✅ ORDER LIFECYCLE: The only way to move an order from one status to the next
+// Each action lists the statuses it may leave, so an order cannot skip a step
+
+import type { Order } from './refactored-divided';
+
+export type OrderStatus = 'pending' | 'confirmed' | 'shipped' | 'delivered' | 'cancelled' | 'returned';
+
+export type OrderAction = 'confirm' | 'ship' | 'deliver' | 'cancel' | 'return';
+
+export interface StatusChange {
+  action: OrderAction;
+  from: OrderStatus;
+  to: OrderStatus;
+  at: Date;
+}
+
+export type Clock = () => Date;
+
+interface Transition {
+  from: OrderStatus[];
+  to: OrderStatus;
+}
+
+const TRANSITIONS: Record<OrderAction, Transition> = {
+  confirm: { from: ['pending'], to: 'confirmed' },
+  ship: { from: ['confirmed'], to: 'shipped' },
+  deliver: { from: ['shipped'], to: 'delivered' },
+  cancel: { from: ['pending', 'confirmed'], to: 'cancelled' },
+  return: { from: ['delivered'], to: 'returned' }
+};
+
+export class IllegalTransitionError extends Error {
+  constructor(
+    public readonly action: OrderAction,
+    public readonly status: OrderStatus
+  ) {
+    super(`Cannot ${action} an order which is ${status}`);
+    this.name = 'IllegalTransitionError';
+  }
+}
+
+export function canTransition(order: Order, action: OrderAction): boolean {
+  return TRANSITIONS[action].from.includes(order.status);
+}
+
+export function availableActions(order: Order): OrderAction[] {
+  return (Object.keys(TRANSITIONS) as OrderAction[]).filter((action) => canTransition(order, action));
+}
+
+// Updates the order in place and records when the change happened
+export function transitionOrder(order: Order, action: OrderAction, clock: Clock = () => new Date()): Order {
+  if (!canTransition(order, action)) {
+    throw new IllegalTransitionError(action, order.status);
+  }
+
+  const from = order.status;
+  const to = TRANSITIONS[action].to;
+  order.status = to;
+  order.history.push({ action, from, to, at: clock() });
+  return order;
+}
@@ -0,0 +1,123 @@
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { money } from './money';
+import { IllegalTransitionError } from './order-lifecycle';
+import {
+  InMemoryOrderRepository,
+  JsonFileOrderRepository,
+  OrderNotFoundError,
+  OrderRepository
+} from './order-repository';
+import { createOrder, defaultPricing, Order, OrderLine } from './refactored-divided';
+import { testUser } from './test-fixtures';
+
+const user = testUser({ subscriptionLevel: 'premium' });
+
+const lines: OrderLine[] = [{ product: { id: 1, name: 'Book', price: money(20), stock: 10 }, quantity: 2 }];
+
+function newOrder(id: string, userId = user.id): Order {
+  const customer = { ...user, id: userId };
+  return createOrder(
+    id,
+    customer,
+    lines,
+    defaultPricing(lines, { user: customer, couponCodes: [] }),
+    `reservation-${id}`
+  );
+}
+
+let directory: string;
+
+beforeEach(() => {
+  directory = mkdtempSync(join(tmpdir(), 'orders-'));
+});
+
+afterEach(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe.each<[string, () => OrderRepository]>([
+  ['in memory', () => new InMemoryOrderRepository()],
+  ['in a JSON file', () => new JsonFileOrderRepository(join(directory, 'orders.json'))]
+])('Order repository %s', (_, createRepository) => {
+  let repository: OrderRepository;
+
+  beforeEach(() => {
+    repository = createRepository();
+  });
+
+  it('should find a saved order by id', () => {
+    const order = newOrder('order-1');
+
+    repository.save(order);
+
+    expect(repository.findById('order-1')).toEqual(order);
+    expect(repository.findById('order-2')).toBeUndefined();
+  });
+
+  it('should list the orders of a user', () => {
+    repository.save(newOrder('order-1'));
+    repository.save(newOrder('order-2', 2));
+    repository.save(newOrder('order-3'));
+
+    expect(repository.listByUser(user.id).map((order) => order.id)).toEqual(['order-1', 'order-3']);
+  });
+
+  it('should only keep changes which are saved', () => {
+    const order = newOrder('order-1');
+    repository.save(order);
+
+    order.status = 'delivered';
+
+    expect(repository.findById('order-1')?.status).toBe('pending');
+  });
+
+  it('should store status changes with their history', () => {
+    repository.save(newOrder('order-1'));
+
+    repository.updateStatus('order-1', 'confirm', () => new Date('2024-01-02T03:04:05Z'));
+
+    expect(repository.findById('order-1')).toMatchObject({
+      status: 'confirmed',
+      history: [{ action: 'confirm', from: 'pending', to: 'confirmed', at: new Date('2024-01-02T03:04:05Z') }]
+    });
+  });
+
+  it('should delete an order and ignore unknown ones', () => {
+    repository.save(newOrder('order-1'));
+    repository.save(newOrder('order-2'));
+
+    repository.delete('order-1');
+    repository.delete('order-3');
+
+    expect(repository.listByUser(user.id).map((order) => order.id)).toEqual(['order-2']);
+  });
+
+  it('should refuse illegal status changes and unknown orders', () => {
+    repository.save(newOrder('order-1'));
+
+    expect(() => repository.updateStatus('order-1', 'ship')).toThrow(IllegalTransitionError);
+    expect(repository.findById('order-1')?.status).toBe('pending');
+    expect(() => repository.updateStatus('order-2', 'confirm')).toThrow(new OrderNotFoundError('order-2'));
+  });
+});
+
+describe('JSON file order repository', () => {
+  it('should read the orders saved by another instance', () => {
+    const path = join(directory, 'orders.json');
+    new JsonFileOrderRepository(path).save(newOrder('order-1'));
+
+    expect(new JsonFileOrderRepository(path).findById('order-1')?.totalAmount).toEqual(money(36));
+  });
+
+  it('should leave no temporary file behind', () => {
+    const repository = new JsonFileOrderRepository(join(directory, 'orders.json'));
+
+    repository.save(newOrder('order-1'));
+    repository.save(newOrder('order-2'));
+
+    expect(readdirSync(directory)).toEqual(['orders.json']);
+  });
+});
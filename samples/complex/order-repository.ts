@@ -0,0 +1,114 @@
+// ✅ ORDER REPOSITORY: Orders outlive the call that created them
+// Repositories hand out copies, so a change only counts once it is saved
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+
+import { Clock, OrderAction, transitionOrder } from './order-lifecycle';
+import type { Order } from './refactored-divided';
+
+export interface OrderRepository {
+  save(order: Order): void;
+  findById(id: string): Order | undefined;
+  listByUser(userId: number): Order[];
+  // Goes through the order lifecycle, so only legal transitions are stored
+  updateStatus(id: string, action: OrderAction, clock?: Clock): Order;
+  // Takes back an order which could not be completed; unknown ids are ignored
+  delete(id: string): void;
+}
+
+export class OrderNotFoundError extends Error {
+  constructor(public readonly orderId: string) {
+    super(`Order ${orderId} not found`);
+    this.name = 'OrderNotFoundError';
+  }
+}
+
+function updateStoredStatus(repository: OrderRepository, id: string, action: OrderAction, clock?: Clock): Order {
+  const order = repository.findById(id);
+  if (!order) {
+    throw new OrderNotFoundError(id);
+  }
+  transitionOrder(order, action, clock);
+  repository.save(order);
+  return order;
+}
+
+export class InMemoryOrderRepository implements OrderRepository {
+  private readonly orders = new Map<string, Order>();
+
+  save(order: Order): void {
+    this.orders.set(order.id, structuredClone(order));
+  }
+
+  findById(id: string): Order | undefined {
+    const order = this.orders.get(id);
+    return order && structuredClone(order);
+  }
+
+  listByUser(userId: number): Order[] {
+    return [...this.orders.values()].filter((order) => order.userId === userId).map((order) => structuredClone(order));
+  }
+
+  updateStatus(id: string, action: OrderAction, clock?: Clock): Order {
+    return updateStoredStatus(this, id, action, clock);
+  }
+
+  delete(id: string): void {
+    this.orders.delete(id);
+  }
+}
+
+// ✅ JSON FILE: The whole file is rewritten on every save, through a temporary file
+// renamed over the original, so a crash never leaves a half-written file behind
+
+interface OrdersFile {
+  orders: Order[];
+}
+
+export class JsonFileOrderRepository implements OrderRepository {
+  constructor(private readonly path: string) {}
+
+  save(order: Order): void {
+    const orders = this.readOrders().filter((stored) => stored.id !== order.id);
+    this.writeOrders([...orders, order]);
+  }
+
+  findById(id: string): Order | undefined {
+    return this.readOrders().find((order) => order.id === id);
+  }
+
+  listByUser(userId: number): Order[] {
+    return this.readOrders().filter((order) => order.userId === userId);
+  }
+
+  updateStatus(id: string, action: OrderAction, clock?: Clock): Order {
+    return updateStoredStatus(this, id, action, clock);
+  }
+
+  delete(id: string): void {
+    const orders = this.readOrders();
+    if (orders.some((order) => order.id === id)) {
+      this.writeOrders(orders.filter((order) => order.id !== id));
+    }
+  }
+
+  private readOrders(): Order[] {
+    if (!existsSync(this.path)) {
+      return [];
+    }
+
+    const file = JSON.parse(readFileSync(this.path, 'utf8')) as OrdersFile;
+    // Dates are stored as ISO strings
+    return file.orders.map((order) => ({
+      ...order,
+      history: order.history.map((change) => ({ ...change, at: new Date(change.at) }))
+    }));
+  }
+
+  private writeOrders(orders: Order[]): void {
+    const file: OrdersFile = { orders };
+    const temporaryPath = `${this.path}.${process.pid}.tmp`;
+    writeFileSync(temporaryPath, JSON.stringify(file, null, 2));
+    renameSync(temporaryPath, this.path);
+  }
+}
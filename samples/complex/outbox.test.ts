@@ -0,0 +1,176 @@
+import { ConsoleAnalytics, InMemoryAnalytics } from './analytics';
+import { money } from './money';
+import { Message, NotificationService } from './notifications';
+import { OutboxDispatcher } from './outbox';
+import {
+  Order,
+  OrderDependencies,
+  OrderEffect,
+  orderEffectHandlers,
+  processUserOrderAndSendNotification,
+  Product,
+  User
+} from './refactored-divided';
+import { inMemoryOrderDependencies } from './test-dependencies';
+import { testUser } from './test-fixtures';
+
+const book: Product = { id: 1, name: 'Book', price: money(20), stock: 10 };
+
+describe('Order side effects through the outbox', () => {
+  let user: User;
+  let now: number;
+  let delivered: Message[];
+  let analytics: InMemoryAnalytics;
+  let failingChannels: string[];
+  let dependencies: OrderDependencies;
+  let dispatcher: OutboxDispatcher<OrderEffect>;
+
+  beforeEach(() => {
+    user = testUser({ subscriptionLevel: 'premium', phone: '+15550001' });
+    now = 1000;
+    delivered = [];
+    analytics = new InMemoryAnalytics();
+    failingChannels = [];
+    const notifier = {
+      send: (message: Message) => {
+        if (failingChannels.includes(message.channel)) {
+          throw new Error(`${message.channel} gateway unavailable`);
+        }
+        delivered.push(message);
+      }
+    };
+    dependencies = inMemoryOrderDependencies([book], {
+      notifications: new NotificationService(notifier),
+      analytics,
+      clock: () => new Date(now)
+    });
+    dispatcher = new OutboxDispatcher(
+      dependencies.outbox,
+      orderEffectHandlers(dependencies, (userId) => (userId === user.id ? user : undefined)),
+      { maxAttempts: 3, baseDelayMs: 100, clock: () => new Date(now) }
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function placeOrder(): Order {
+    return processUserOrderAndSendNotification(user, [{ product: book, quantity: 1 }], dependencies);
+  }
+
+  it('should record the side effects with the order and run none of them', () => {
+    const order = placeOrder();
+
+    expect(dependencies.orders.findById(order.id)).toEqual(order);
+    expect(dependencies.outbox.pending().map((entry) => [entry.orderId, entry.effect.type])).toEqual([
+      ['order-1', 'send-message'],
+      ['order-1', 'send-message'],
+      ['order-1', 'log-analytics'],
+      ['order-1', 'update-last-login']
+    ]);
+    expect(delivered).toEqual([]);
+    expect(user.lastLoginDate).toEqual(new Date(0));
+  });
+
+  it('should keep nothing of an order whose side effects cannot be recorded', () => {
+    jest.spyOn(dependencies.outbox, 'enqueue').mockImplementationOnce(() => {
+      throw new Error('outbox unavailable');
+    });
+    const submit = () =>
+      processUserOrderAndSendNotification(user, [{ product: book, quantity: 2 }], dependencies, {
+        idempotencyKey: 'checkout-1'
+      });
+
+    expect(submit).toThrow('outbox unavailable');
+    expect(dependencies.orders.listByUser(user.id)).toEqual([]);
+    expect(dependencies.inventory.available(book.id)).toBe(10);
+
+    const order = submit();
+
+    expect(submit()).toEqual(order);
+    expect(dependencies.orders.listByUser(user.id)).toEqual([order]);
+    expect(dependencies.inventory.available(book.id)).toBe(8);
+  });
+
+  it('should drop the recorded side effects when the submission cannot be remembered', () => {
+    jest.spyOn(dependencies.idempotency, 'remember').mockImplementationOnce(() => {
+      throw new Error('key store unavailable');
+    });
+
+    expect(() =>
+      processUserOrderAndSendNotification(user, [{ product: book, quantity: 1 }], dependencies, {
+        idempotencyKey: 'checkout-1'
+      })
+    ).toThrow('key store unavailable');
+    expect(dependencies.outbox.pending()).toEqual([]);
+    expect(dependencies.orders.findById('order-1')).toBeUndefined();
+    expect(dependencies.inventory.available(book.id)).toBe(10);
+  });
+
+  it('should deliver every due side effect', () => {
+    placeOrder();
+
+    expect(dispatcher.dispatchDue()).toEqual({ delivered: 4, retried: 0, deadLettered: 0 });
+    expect(delivered.map((message) => message.channel)).toEqual(['email', 'sms']);
+    expect(analytics.events).toEqual([{ userId: 1, total: money(18) }]);
+    expect(user.lastLoginDate).toEqual(new Date(1000));
+    expect(dependencies.outbox.pending()).toEqual([]);
+  });
+
+  it('should create the order and send the email even when SMS fails', () => {
+    failingChannels = ['sms'];
+
+    const order = placeOrder();
+    const report = dispatcher.dispatchDue();
+
+    expect(order.status).toBe('pending');
+    expect(report).toEqual({ delivered: 3, retried: 1, deadLettered: 0 });
+    expect(delivered.map((message) => message.channel)).toEqual(['email']);
+    expect(dependencies.outbox.pending()).toEqual([
+      expect.objectContaining({ attempts: 1, lastError: 'sms gateway unavailable', nextAttemptAt: new Date(1100) })
+    ]);
+  });
+
+  it('should retry with exponential backoff and dead-letter the entries which keep failing', () => {
+    failingChannels = ['sms'];
+    placeOrder();
+    dispatcher.dispatchDue();
+
+    now = 1099;
+    expect(dispatcher.dispatchDue()).toEqual({ delivered: 0, retried: 0, deadLettered: 0 });
+
+    now = 1100;
+    expect(dispatcher.dispatchDue()).toEqual({ delivered: 0, retried: 1, deadLettered: 0 });
+    expect(dependencies.outbox.pending()[0]?.nextAttemptAt).toEqual(new Date(1300));
+
+    now = 1300;
+    expect(dispatcher.dispatchDue()).toEqual({ delivered: 0, retried: 0, deadLettered: 1 });
+    expect(dependencies.outbox.pending()).toEqual([]);
+    expect(dependencies.outbox.deadLetters()).toEqual([
+      expect.objectContaining({ orderId: 'order-1', attempts: 3, lastError: 'sms gateway unavailable' })
+    ]);
+  });
+
+  it('should deliver an entry which succeeds on retry', () => {
+    failingChannels = ['sms'];
+    placeOrder();
+    dispatcher.dispatchDue();
+
+    failingChannels = [];
+    now = 1100;
+
+    expect(dispatcher.dispatchDue()).toEqual({ delivered: 1, retried: 0, deadLettered: 0 });
+    expect(delivered.map((message) => message.channel)).toEqual(['email', 'sms']);
+  });
+});
+
+describe('Order analytics', () => {
+  it('should log placed orders to the console in the legacy format', () => {
+    const lines: string[] = [];
+
+    new ConsoleAnalytics((line) => lines.push(line)).orderPlaced({ userId: 1, total: money(18) });
+
+    expect(lines).toEqual(['[ANALYTICS] User 1 placed order with total $18.00']);
+  });
+});
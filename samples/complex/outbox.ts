@@ -0,0 +1,157 @@
+// ✅ TRANSACTIONAL OUTBOX: Side effects are recorded with the order, delivered afterwards
+// Creating an order only writes entries; a dispatcher runs them later, retries the
+// ones which fail with exponential backoff and gives up on them after a few attempts
+
+import type { Clock } from './order-lifecycle';
+
+export interface Effect {
+  type: string;
+}
+
+export interface OutboxEntry<E extends Effect> {
+  id: string;
+  orderId: string;
+  effect: E;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+}
+
+// One handler per type of effect; a handler fails by throwing
+export type EffectHandlers<E extends Effect> = {
+  [Type in E['type']]: (effect: Extract<E, { type: Type }>) => void;
+};
+
+export interface OutboxStore<E extends Effect> {
+  enqueue(orderId: string, effects: E[], now: Date): OutboxEntry<E>[];
+  due(now: Date): OutboxEntry<E>[];
+  pending(): OutboxEntry<E>[];
+  deadLetters(): OutboxEntry<E>[];
+  complete(entryId: string): void;
+  retry(entryId: string, error: string, nextAttemptAt: Date): void;
+  deadLetter(entryId: string, error: string): void;
+  // Drops the pending entries of an order which could not be completed
+  discard(orderId: string): void;
+}
+
+export interface DispatchOptions {
+  maxAttempts: number;
+  // The delay before the second attempt, doubled before each of the next ones
+  baseDelayMs: number;
+  clock: Clock;
+}
+
+export interface DispatchReport {
+  delivered: number;
+  retried: number;
+  deadLettered: number;
+}
+
+export class InMemoryOutboxStore<E extends Effect> implements OutboxStore<E> {
+  private readonly entries = new Map<string, OutboxEntry<E>>();
+  private readonly failed: OutboxEntry<E>[] = [];
+  private nextEntry = 1;
+
+  enqueue(orderId: string, effects: E[], now: Date): OutboxEntry<E>[] {
+    const entries = effects.map((effect) => ({
+      id: `entry-${this.nextEntry++}`,
+      orderId,
+      effect,
+      attempts: 0,
+      nextAttemptAt: now
+    }));
+    entries.forEach((entry) => this.entries.set(entry.id, entry));
+    return entries;
+  }
+
+  due(now: Date): OutboxEntry<E>[] {
+    return this.pending().filter((entry) => entry.nextAttemptAt.getTime() <= now.getTime());
+  }
+
+  pending(): OutboxEntry<E>[] {
+    return [...this.entries.values()];
+  }
+
+  deadLetters(): OutboxEntry<E>[] {
+    return [...this.failed];
+  }
+
+  complete(entryId: string): void {
+    this.entries.delete(entryId);
+  }
+
+  retry(entryId: string, error: string, nextAttemptAt: Date): void {
+    const entry = this.require(entryId);
+    entry.attempts++;
+    entry.lastError = error;
+    entry.nextAttemptAt = nextAttemptAt;
+  }
+
+  deadLetter(entryId: string, error: string): void {
+    const entry = this.require(entryId);
+    entry.attempts++;
+    entry.lastError = error;
+    this.entries.delete(entryId);
+    this.failed.push(entry);
+  }
+
+  discard(orderId: string): void {
+    this.pending()
+      .filter((entry) => entry.orderId === orderId)
+      .forEach((entry) => this.entries.delete(entry.id));
+  }
+
+  private require(entryId: string): OutboxEntry<E> {
+    const entry = this.entries.get(entryId);
+    if (!entry) {
+      throw new Error(`Unknown outbox entry ${entryId}`);
+    }
+    return entry;
+  }
+}
+
+export class OutboxDispatcher<E extends Effect> {
+  private readonly options: DispatchOptions;
+
+  constructor(
+    private readonly store: OutboxStore<E>,
+    private readonly handlers: EffectHandlers<E>,
+    options: Partial<DispatchOptions> = {}
+  ) {
+    this.options = { maxAttempts: 5, baseDelayMs: 1000, clock: () => new Date(), ...options };
+  }
+
+  // Every entry is handled on its own: one failing never stops the others
+  dispatchDue(): DispatchReport {
+    const report: DispatchReport = { delivered: 0, retried: 0, deadLettered: 0 };
+    const now = this.options.clock();
+
+    for (const entry of this.store.due(now)) {
+      try {
+        this.handle(entry.effect);
+        this.store.complete(entry.id);
+        report.delivered++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const attempts = entry.attempts + 1;
+        if (attempts >= this.options.maxAttempts) {
+          this.store.deadLetter(entry.id, message);
+          report.deadLettered++;
+        } else {
+          this.store.retry(entry.id, message, new Date(now.getTime() + this.backoff(attempts)));
+          report.retried++;
+        }
+      }
+    }
+    return report;
+  }
+
+  backoff(attempts: number): number {
+    return this.options.baseDelayMs * 2 ** (attempts - 1);
+  }
+
+  private handle(effect: E): void {
+    const handler = this.handlers[effect.type as E['type']] as (effect: E) => void;
+    handler(effect);
+  }
+}
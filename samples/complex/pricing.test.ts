@@ -0,0 +1,113 @@
+import { money } from './money';
+import {
+  buyNGetOneRule,
+  couponRule,
+  createPricingPipeline,
+  orderThresholdRule,
+  PricingContext,
+  productPromotionRule
+} from './pricing';
+import { OrderLine, Product, subscriptionTierRule } from './refactored-divided';
+import { testUser } from './test-fixtures';
+
+const premiumUser = testUser({ subscriptionLevel: 'premium' });
+
+const book: Product = { id: 1, name: 'Book', price: money(20), stock: 10 };
+const lamp: Product = { id: 2, name: 'Lamp', price: money(50), stock: 10 };
+
+function line(product: Product, quantity = 1): OrderLine {
+  return { product, quantity };
+}
+
+function context(couponCodes: string[] = []): PricingContext {
+  return { user: premiumUser, couponCodes };
+}
+
+describe('Pricing pipeline', () => {
+  it('should explain which rule changed which line', () => {
+    const pricing = createPricingPipeline([subscriptionTierRule(), productPromotionRule(lamp.id, 20)]);
+
+    const breakdown = pricing([line(book), line(lamp)], context());
+
+    const rulesByLine = breakdown.lines.map((line) => [
+      line.product.name,
+      line.price.amount,
+      line.adjustments.map((a) => a.rule)
+    ]);
+    expect(rulesByLine).toEqual([
+      ['Book', 1800, ['subscription-tier']],
+      ['Lamp', 3600, ['subscription-tier', 'promotion:2']]
+    ]);
+    expect(breakdown).toMatchObject({ subtotal: money(70), discount: money(16), total: money(54) });
+  });
+
+  it('should apply the rules in the configured stacking order', () => {
+    const rules = [couponRule('SAVE10', 10), orderThresholdRule(money(50), money(10))];
+
+    const couponFirst = createPricingPipeline(rules)([line(lamp)], context(['SAVE10']));
+    const thresholdFirst = createPricingPipeline(rules, { order: ['threshold:$50.00'] })(
+      [line(lamp)],
+      context(['SAVE10'])
+    );
+
+    expect(couponFirst.total).toEqual(money(45));
+    expect(couponFirst.orderAdjustments.map((adjustment) => adjustment.rule)).toEqual(['coupon:SAVE10']);
+    expect(thresholdFirst.total).toEqual(money(36));
+    expect(thresholdFirst.orderAdjustments.map((adjustment) => adjustment.rule)).toEqual([
+      'threshold:$50.00',
+      'coupon:SAVE10'
+    ]);
+  });
+
+  it('should ignore coupons the customer did not enter', () => {
+    const breakdown = createPricingPipeline([couponRule('SAVE10', 10)])([line(lamp)], context(['OTHER']));
+
+    expect(breakdown.total).toEqual(money(50));
+    expect(breakdown.orderAdjustments).toEqual([]);
+  });
+
+  it('should give every N+1th unit of a product for free across its lines', () => {
+    const pricing = createPricingPipeline([buyNGetOneRule(book.id, 2)]);
+
+    const breakdown = pricing([line(book, 4), line(lamp), line(book, 3)], context());
+
+    expect(breakdown.lines.map((priced) => priced.adjustments.map((adjustment) => adjustment.amount))).toEqual([
+      [money(-40)],
+      [],
+      []
+    ]);
+    expect(breakdown.total).toEqual(money(150));
+  });
+
+  it('should cap the total discount and trim the rule that exceeds it', () => {
+    const pricing = createPricingPipeline([productPromotionRule(book.id, 50), couponRule('HALF', 50)], {
+      maxDiscountPercentage: 30
+    });
+
+    const breakdown = pricing([line(book), line(lamp)], context(['HALF']));
+
+    expect(breakdown.discount).toEqual(money(21));
+    expect(breakdown.orderAdjustments).toEqual([
+      { rule: 'coupon:HALF', description: 'Coupon HALF: 50% off', amount: money(-11) }
+    ]);
+  });
+
+  it('should round percentage discounts to whole cents with the configured rounding', () => {
+    const candle: Product = { id: 3, name: 'Candle', price: money(0.25), stock: 10 };
+
+    const halfUp = createPricingPipeline([productPromotionRule(candle.id, 10)])([line(candle)], context());
+    const floor = createPricingPipeline([productPromotionRule(candle.id, 10)], { rounding: 'floor' })(
+      [line(candle)],
+      context()
+    );
+
+    expect(halfUp.total).toEqual(money(0.22));
+    expect(floor.total).toEqual(money(0.23));
+  });
+
+  it('should refuse a stacking order naming an unknown rule', () => {
+    expect(() => createPricingPipeline([couponRule('SAVE10', 10)], { order: ['coupon:SAVE20'] })).toThrow(
+      'Unknown pricing rules in stacking order: coupon:SAVE20'
+    );
+  });
+});
@@ -0,0 +1,228 @@
+// ✅ PRICING PIPELINE: Discount rules composed in a configurable order
+// Every adjustment is recorded on the line or the order it changed, so the
+// breakdown explains the total instead of just stating it
+
+import {
+  addMoney,
+  compareMoney,
+  DEFAULT_CURRENCY,
+  formatMoney,
+  isZeroMoney,
+  maxMoney,
+  minMoney,
+  Money,
+  multiplyMoney,
+  negateMoney,
+  percentageOf,
+  RoundingMode,
+  subtractMoney,
+  sumMoney,
+  zeroMoney
+} from './money';
+import type { OrderLine, Product, User } from './refactored-divided';
+
+export interface PriceAdjustment {
+  rule: string;
+  description: string;
+  amount: Money;
+}
+
+export interface PricedLine {
+  product: Product;
+  quantity: number;
+  // The unit price times the quantity, before any discount
+  basePrice: Money;
+  price: Money;
+  adjustments: PriceAdjustment[];
+}
+
+export interface PriceBreakdown {
+  lines: PricedLine[];
+  orderAdjustments: PriceAdjustment[];
+  subtotal: Money;
+  discount: Money;
+  total: Money;
+}
+
+export interface PricingContext {
+  user: User;
+  couponCodes: string[];
+}
+
+// What a rule may do: discount a line or the whole order, never beyond the cap
+export interface PriceAdjuster {
+  lines: PricedLine[];
+  rounding: RoundingMode;
+  total(): Money;
+  adjustLine(line: PricedLine, description: string, discount: Money): void;
+  adjustOrder(description: string, discount: Money): void;
+}
+
+export interface PricingRule {
+  name: string;
+  apply(adjuster: PriceAdjuster, context: PricingContext): void;
+}
+
+export interface PricingOptions {
+  // Rule names in the order they apply; rules not listed apply afterwards
+  order: string[];
+  // The most an order can be discounted, as a percentage of its subtotal
+  maxDiscountPercentage: number;
+  // How fractions of a minor unit are rounded by percentage discounts
+  rounding: RoundingMode;
+}
+
+export type PricingPipeline = (lines: OrderLine[], context: PricingContext) => PriceBreakdown;
+
+// ✅ RULES: Each one is a small, independent discount
+
+export function couponRule(code: string, percentage: number): PricingRule {
+  return {
+    name: `coupon:${code}`,
+    apply: (adjuster, context) => {
+      if (context.couponCodes.includes(code)) {
+        const discount = percentageOf(adjuster.total(), percentage, adjuster.rounding);
+        adjuster.adjustOrder(`Coupon ${code}: ${percentage}% off`, discount);
+      }
+    }
+  };
+}
+
+export function buyNGetOneRule(productId: number, n: number): PricingRule {
+  return {
+    name: `buy-${n}-get-one:${productId}`,
+    apply: (adjuster) => {
+      const lines = adjuster.lines.filter((line) => line.product.id === productId);
+      const units = lines.reduce((total, line) => total + line.quantity, 0);
+      let freeUnits = Math.floor(units / (n + 1));
+      for (const line of lines) {
+        const free = Math.min(freeUnits, line.quantity);
+        if (free > 0) {
+          adjuster.adjustLine(line, `Buy ${n}, get one free (${free} free)`, multiplyMoney(line.product.price, free));
+          freeUnits -= free;
+        }
+      }
+    }
+  };
+}
+
+export function productPromotionRule(productId: number, percentage: number): PricingRule {
+  return {
+    name: `promotion:${productId}`,
+    apply: (adjuster) => {
+      for (const line of adjuster.lines.filter((candidate) => candidate.product.id === productId)) {
+        adjuster.adjustLine(
+          line,
+          `Promotion: ${percentage}% off`,
+          percentageOf(line.price, percentage, adjuster.rounding)
+        );
+      }
+    }
+  };
+}
+
+export function orderThresholdRule(minimumTotal: Money, discount: Money): PricingRule {
+  const threshold = formatMoney(minimumTotal);
+  return {
+    name: `threshold:${threshold}`,
+    apply: (adjuster) => {
+      if (compareMoney(adjuster.total(), minimumTotal) >= 0) {
+        adjuster.adjustOrder(`Orders of ${threshold} or more: ${formatMoney(discount)} off`, discount);
+      }
+    }
+  };
+}
+
+// ✅ PIPELINE: Applies the rules in order and keeps the breakdown consistent
+
+function sortRules(rules: PricingRule[], order: string[]): PricingRule[] {
+  const unknown = order.filter((name) => !rules.some((rule) => rule.name === name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown pricing rules in stacking order: ${unknown.join(', ')}`);
+  }
+
+  const rank = (rule: PricingRule): number => {
+    const index = order.indexOf(rule.name);
+    return index === -1 ? order.length : index;
+  };
+  return [...rules].sort((a, b) => rank(a) - rank(b));
+}
+
+function createAdjuster(
+  lines: PricedLine[],
+  orderAdjustments: PriceAdjustment[],
+  maxDiscount: Money,
+  rounding: RoundingMode
+): { adjuster: PriceAdjuster; applying: (rule: string) => void } {
+  let rule = '';
+  let discounted = zeroMoney(maxDiscount.currency);
+
+  // Trims a discount so it neither exceeds what it applies to nor the cap
+  const allowed = (discount: Money, applicableTo: Money): Money =>
+    maxMoney(zeroMoney(discount.currency), minMoney(discount, applicableTo, subtractMoney(maxDiscount, discounted)));
+
+  const adjuster: PriceAdjuster = {
+    lines,
+    rounding,
+    total: () =>
+      sumMoney(
+        [...lines.map((line) => line.price), ...orderAdjustments.map((adjustment) => adjustment.amount)],
+        maxDiscount.currency
+      ),
+    adjustLine: (line, description, discount) => {
+      const amount = allowed(discount, line.price);
+      if (!isZeroMoney(amount)) {
+        line.price = subtractMoney(line.price, amount);
+        line.adjustments.push({ rule, description, amount: negateMoney(amount) });
+        discounted = addMoney(discounted, amount);
+      }
+    },
+    adjustOrder: (description, discount) => {
+      const amount = allowed(discount, adjuster.total());
+      if (!isZeroMoney(amount)) {
+        orderAdjustments.push({ rule, description, amount: negateMoney(amount) });
+        discounted = addMoney(discounted, amount);
+      }
+    }
+  };
+
+  return {
+    adjuster,
+    applying: (name: string) => {
+      rule = name;
+    }
+  };
+}
+
+export function createPricingPipeline(rules: PricingRule[], options: Partial<PricingOptions> = {}): PricingPipeline {
+  const sortedRules = sortRules(rules, options.order ?? []);
+  const maxDiscountPercentage = options.maxDiscountPercentage ?? 100;
+  const rounding = options.rounding ?? 'half-up';
+
+  return (orderLines, context) => {
+    const lines: PricedLine[] = orderLines.map(({ product, quantity }) => ({
+      product,
+      quantity,
+      basePrice: multiplyMoney(product.price, quantity),
+      price: multiplyMoney(product.price, quantity),
+      adjustments: []
+    }));
+    const orderAdjustments: PriceAdjustment[] = [];
+    const currency = orderLines[0]?.product.price.currency ?? DEFAULT_CURRENCY;
+    const subtotal = sumMoney(
+      lines.map((line) => line.basePrice),
+      currency
+    );
+    // The cap rounds down so that it is never exceeded by a fraction of a minor unit
+    const maxDiscount = percentageOf(subtotal, maxDiscountPercentage, 'floor');
+    const { adjuster, applying } = createAdjuster(lines, orderAdjustments, maxDiscount, rounding);
+
+    for (const rule of sortedRules) {
+      applying(rule.name);
+      rule.apply(adjuster, context);
+    }
+
+    const total = adjuster.total();
+    return { lines, orderAdjustments, subtotal, discount: subtractMoney(subtotal, total), total };
+  };
+}
@@ -1,31 +1,95 @@
 // ✅ REFACTORED: Using Divide and Conquer strategy
 // Each function has a single, clear responsibility
 
-interface User {
+import { AnalyticsSink } from './analytics';
+import { calculateShipping, calculateTax, CheckoutPolicy, OrderTotals, TaxCategory } from './checkout';
+import {
+  addMoney,
+  DEFAULT_CURRENCY,
+  formatMoney,
+  Money,
+  multiplyMoney,
+  percentageOf,
+  RoundingMode,
+  subtractMoney,
+  sumMoney,
+  zeroMoney
+} from './money';
+import { InventoryService } from './inventory';
+import { Channel, NotificationService } from './notifications';
+import { IdempotencyStore, IdGenerator } from './order-ids';
+import { Clock, OrderStatus, StatusChange } from './order-lifecycle';
+import { OrderRepository } from './order-repository';
+import { EffectHandlers, OutboxStore } from './outbox';
+import { createPricingPipeline, PriceBreakdown, PricingPipeline, PricingRule } from './pricing';
+
+export interface User {
   id: number;
   name: string;
   email: string;
   age: number;
   subscriptionLevel: 'free' | 'premium' | 'enterprise';
   lastLoginDate: Date;
+  phone?: string;
+  pushToken?: string;
 }
 
-interface Product {
+export interface Product {
   id: number;
   name: string;
-  price: number;
+  price: Money;
   stock: number;
+  // Standard rate when not given
+  taxCategory?: TaxCategory;
+  weightGrams?: number;
+}
+
+export interface OrderLine {
+  product: Product;
+  quantity: number;
 }
 
-interface Order {
+export interface Order {
+  id: string;
   userId: number;
-  products: Product[];
-  totalAmount: number;
-  status: 'pending' | 'confirmed' | 'shipped' | 'delivered';
+  lines: OrderLine[];
+  reservationId: string;
+  // What the customer pays: the grand total of the totals below
+  totalAmount: Money;
+  priceBreakdown: PriceBreakdown;
+  totals: OrderTotals;
+  status: OrderStatus;
+  history: StatusChange[];
+}
+
+// The side effects of an order, delivered through the outbox after it is created
+export type OrderEffect =
+  // Rendered when it is delivered, so that a template error is retried like any failed delivery
+  | { type: 'send-message'; userId: number; channel: Channel; template: string; variables: Record<string, string> }
+  | { type: 'log-analytics'; userId: number; total: Money }
+  | { type: 'update-last-login'; userId: number; at: Date };
+
+export interface OrderDependencies {
+  inventory: InventoryService;
+  notifications: NotificationService;
+  analytics: AnalyticsSink;
+  ids: IdGenerator;
+  idempotency: IdempotencyStore;
+  orders: OrderRepository;
+  outbox: OutboxStore<OrderEffect>;
+  clock?: Clock;
+}
+
+export interface OrderOptions {
+  pricing: PricingPipeline;
+  couponCodes: string[];
+  checkout: CheckoutPolicy;
+  // Submitting again with the same key returns the first order instead of a new one
+  idempotencyKey: string;
 }
 
 // ✅ RESPONSIBILITY 1: Discount calculation
-function calculateDiscount(subscriptionLevel: User['subscriptionLevel']): number {
+export function calculateDiscount(subscriptionLevel: User['subscriptionLevel']): number {
   const discountMap: Record<User['subscriptionLevel'], number> = {
     free: 0,
     premium: 10,
@@ -34,94 +98,223 @@ function calculateDiscount(subscriptionLevel: User['subscriptionLevel']): number
   return discountMap[subscriptionLevel];
 }
 
+export function subscriptionTierRule(): PricingRule {
+  return {
+    name: 'subscription-tier',
+    apply: (adjuster, context) => {
+      const percentage = calculateDiscount(context.user.subscriptionLevel);
+      const description = `${context.user.subscriptionLevel} subscription: ${percentage}% off`;
+      for (const line of adjuster.lines) {
+        adjuster.adjustLine(line, description, percentageOf(line.price, percentage, adjuster.rounding));
+      }
+    }
+  };
+}
+
+// Only the subscription discount, as before pricing rules could be configured
+export const defaultPricing: PricingPipeline = createPricingPipeline([subscriptionTierRule()]);
+
 // ✅ RESPONSIBILITY 2: User validation
-function validateUser(user: User): void {
+export function validateUser(user: User): void {
   if (!user || !user.id || !user.email) {
     throw new Error('Invalid user');
   }
 }
 
-// ✅ RESPONSIBILITY 3: Product validation
-function validateProducts(products: Product[]): void {
-  if (!products || products.length === 0) {
+// ✅ RESPONSIBILITY 3: Order line validation
+// Stock is checked when the inventory reserves it, for all the lines at once
+export function validateOrderLines(lines: OrderLine[]): void {
+  if (!lines || lines.length === 0) {
     throw new Error('No products selected');
   }
 
-  for (let i = 0; i < products.length; i++) {
-    const product = products[i];
-    
-    if (!product || product.id === undefined) {
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (!line || !line.product || line.product.id === undefined) {
       throw new Error(`Invalid product at index ${i}`);
     }
 
-    if (product.stock <= 0) {
-      throw new Error(`Product ${product.name} is out of stock`);
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      throw new Error(`Invalid quantity ${line.quantity} for product ${line.product.name}`);
     }
   }
 }
 
 // ✅ RESPONSIBILITY 4: Price calculation
-function calculateOrderTotal(products: Product[], discountPercentage: number): number {
-  return products.reduce((total, product) => {
-    const discountedPrice = product.price * (1 - discountPercentage / 100);
-    return total + discountedPrice;
-  }, 0);
+export function calculateOrderTotal(
+  lines: OrderLine[],
+  discountPercentage: number,
+  rounding: RoundingMode = 'half-up'
+): Money {
+  const discountedPrices = lines.map(({ product, quantity }) => {
+    const discountedPrice = subtractMoney(product.price, percentageOf(product.price, discountPercentage, rounding));
+    return multiplyMoney(discountedPrice, quantity);
+  });
+  return sumMoney(discountedPrices, lines[0]?.product.price.currency ?? DEFAULT_CURRENCY);
+}
+
+// The subtotal is the order without any discount; the discounts are whatever the pricing rules took off it
+export function calculateOrderTotals(priceBreakdown: PriceBreakdown, policy: CheckoutPolicy = {}): OrderTotals {
+  const currency = priceBreakdown.total.currency;
+  const subtotal = calculateOrderTotal(priceBreakdown.lines, 0);
+  const tax = policy.region ? calculateTax(priceBreakdown, policy.region) : zeroMoney(currency);
+  const taxIncluded = policy.region?.pricesIncludeTax ?? false;
+  const shipping = policy.shipping ? calculateShipping(priceBreakdown, policy.shipping) : zeroMoney(currency);
+
+  return {
+    subtotal,
+    discounts: subtractMoney(subtotal, priceBreakdown.total),
+    tax,
+    taxIncluded,
+    shipping,
+    grandTotal: addMoney(addMoney(priceBreakdown.total, taxIncluded ? zeroMoney(currency) : tax), shipping)
+  };
 }
 
 // ✅ RESPONSIBILITY 5: Order creation
-function createOrder(user: User, products: Product[], totalAmount: number): Order {
+export function createOrder(
+  id: string,
+  user: User,
+  lines: OrderLine[],
+  priceBreakdown: PriceBreakdown,
+  reservationId: string,
+  totals: OrderTotals = calculateOrderTotals(priceBreakdown)
+): Order {
   return {
+    id: id,
     userId: user.id,
-    products: products,
-    totalAmount: totalAmount,
-    status: 'pending'
+    lines: lines,
+    reservationId: reservationId,
+    totalAmount: totals.grandTotal,
+    priceBreakdown: priceBreakdown,
+    totals: totals,
+    status: 'pending',
+    history: []
   };
 }
 
-// ✅ RESPONSIBILITY 6: Email notification
-function sendEmailNotification(user: User, order: Order): void {
-  const emailSubject = `Order Confirmation #${Math.random()}`;
-  const emailBody = `Dear ${user.name},\n\nYour order has been received.\nTotal: $${order.totalAmount.toFixed(2)}\n\nThank you for your purchase!`;
-  
-  console.log(`[EMAIL] To: ${user.email}`);
-  console.log(`[EMAIL] Subject: ${emailSubject}`);
-  console.log(`[EMAIL] Body: ${emailBody}`);
+// ✅ RESPONSIBILITY 6: Customer notification
+// The channels come from the user's preferences, the wording from the templates
+export function prepareOrderConfirmation(notifications: NotificationService, user: User, order: Order): OrderEffect[] {
+  const variables = { name: user.name, orderNumber: order.id, total: formatMoney(order.totalAmount) };
+  return notifications.channelsOf(user, 'order-confirmation').map((channel) => ({
+    type: 'send-message',
+    userId: user.id,
+    channel,
+    template: 'order-confirmation',
+    variables
+  }));
 }
 
-// ✅ RESPONSIBILITY 7: SMS notification
-function sendSmsNotification(user: User, order: Order): void {
-  if (user.subscriptionLevel === 'premium' || user.subscriptionLevel === 'enterprise') {
-    const smsMessage = `Order confirmed! Total: $${order.totalAmount.toFixed(2)}`;
-    console.log(`[SMS] Message: ${smsMessage}`);
-  }
+// ✅ RESPONSIBILITY 7: Analytics logging
+export function logOrderAnalytics(analytics: AnalyticsSink, userId: number, total: Money): void {
+  analytics.orderPlaced({ userId, total });
 }
 
-// ✅ RESPONSIBILITY 8: Analytics logging
-function logOrderAnalytics(user: User, order: Order): void {
-  console.log(`[ANALYTICS] User ${user.id} placed order with total $${order.totalAmount}`);
+// ✅ RESPONSIBILITY 8: User state update
+export function updateUserLastLogin(user: User, at: Date = new Date()): void {
+  user.lastLoginDate = at;
+}
+
+// ✅ RESPONSIBILITY 9: Order cancellation
+// Gives the reserved stock back once the order can no longer ship
+export function cancelOrder(
+  orderId: string,
+  dependencies: Pick<OrderDependencies, 'inventory' | 'orders'>,
+  clock?: Clock
+): Order {
+  const order = dependencies.orders.updateStatus(orderId, 'cancel', clock);
+  dependencies.inventory.release(order.reservationId);
+  return order;
 }
 
-// ✅ RESPONSIBILITY 9: User state update
-function updateUserLastLogin(user: User): void {
-  user.lastLoginDate = new Date();
+// ✅ RESPONSIBILITY 10: Side effects
+// Recorded when the order is created and only run by the dispatcher, so that none of them can fail the order
+export function orderEffects(notifications: NotificationService, user: User, order: Order, now: Date): OrderEffect[] {
+  return [
+    ...prepareOrderConfirmation(notifications, user, order),
+    { type: 'log-analytics', userId: user.id, total: order.totalAmount },
+    { type: 'update-last-login', userId: user.id, at: now }
+  ];
+}
+
+// Run by the outbox dispatcher; users are looked up when the effect is delivered
+export function orderEffectHandlers(
+  { notifications, analytics }: Pick<OrderDependencies, 'notifications' | 'analytics'>,
+  findUser: (userId: number) => User | undefined
+): EffectHandlers<OrderEffect> {
+  const userWithId = (userId: number): User => {
+    const user = findUser(userId);
+    if (!user) {
+      throw new Error(`Unknown user ${userId}`);
+    }
+    return user;
+  };
+
+  return {
+    'send-message': (effect) => {
+      const message = notifications.renderOn(
+        effect.channel,
+        userWithId(effect.userId),
+        effect.template,
+        effect.variables
+      );
+      if (message) {
+        notifications.deliver(message);
+      }
+    },
+    'log-analytics': (effect) => logOrderAnalytics(analytics, effect.userId, effect.total),
+    'update-last-login': (effect) => updateUserLastLogin(userWithId(effect.userId), effect.at)
+  };
 }
 
 // ✅ ORCHESTRATOR: Coordinates all responsibilities
 // This function is now small, readable, and easy to test
-function processUserOrderAndSendNotification(user: User, products: Product[]): Order {
+export function processUserOrderAndSendNotification(
+  user: User,
+  lines: OrderLine[],
+  dependencies: OrderDependencies,
+  options: Partial<OrderOptions> = {}
+): Order {
   validateUser(user);
-  validateProducts(products);
 
-  const discountPercentage = calculateDiscount(user.subscriptionLevel);
-  const totalAmount = calculateOrderTotal(products, discountPercentage);
-  const order = createOrder(user, products, totalAmount);
+  const { idempotencyKey } = options;
+  const submittedId = idempotencyKey === undefined ? undefined : dependencies.idempotency.find(user.id, idempotencyKey);
+  const submitted = submittedId === undefined ? undefined : dependencies.orders.findById(submittedId);
+  if (submitted) {
+    return submitted;
+  }
 
-  sendEmailNotification(user, order);
-  sendSmsNotification(user, order);
-  logOrderAnalytics(user, order);
-  updateUserLastLogin(user);
+  validateOrderLines(lines);
 
-  return order;
+  const pricing = options.pricing ?? defaultPricing;
+  const priceBreakdown = pricing(lines, { user, couponCodes: options.couponCodes ?? [] });
+  const totals = calculateOrderTotals(priceBreakdown, options.checkout);
+  const orderId = dependencies.ids();
+  const reservation = dependencies.inventory.reserve(lines);
+
+  // An order is created whole or not at all: when any step fails, what was already stored
+  // of it is removed and its stock released, so a retry with the same key starts afresh
+  try {
+    const order = createOrder(orderId, user, lines, priceBreakdown, reservation.id, totals);
+    const now = (dependencies.clock ?? (() => new Date()))();
+    const effects = orderEffects(dependencies.notifications, user, order, now);
+
+    // The order and its side effects are stored together; the dispatcher delivers the effects
+    dependencies.orders.save(order);
+    dependencies.outbox.enqueue(order.id, effects, now);
+    if (idempotencyKey !== undefined) {
+      dependencies.idempotency.remember(user.id, idempotencyKey, order.id);
+    }
+
+    return order;
+  } catch (error) {
+    dependencies.outbox.discard(orderId);
+    dependencies.orders.delete(orderId);
+    dependencies.inventory.release(reservation.id);
+    throw error;
+  }
 }
 
 // ✅ BENEFITS OF THIS APPROACH:
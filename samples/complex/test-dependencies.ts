@@ -0,0 +1,26 @@
+// ✅ TEST DEPENDENCIES: In-memory services for tests which place orders
+// A test passes only the services it observes or makes fail; the others are fresh and empty
+
+import { InMemoryAnalytics } from './analytics';
+import { InMemoryInventory } from './inventory';
+import { InMemoryOutbox, NotificationService } from './notifications';
+import { InMemoryIdempotencyStore, sequentialIds } from './order-ids';
+import { InMemoryOrderRepository } from './order-repository';
+import { InMemoryOutboxStore } from './outbox';
+import type { OrderDependencies, OrderEffect, Product } from './refactored-divided';
+
+export function inMemoryOrderDependencies(
+  products: Product[],
+  overrides: Partial<OrderDependencies> = {}
+): OrderDependencies {
+  return {
+    inventory: InMemoryInventory.fromProducts(products),
+    notifications: new NotificationService(new InMemoryOutbox()),
+    analytics: new InMemoryAnalytics(),
+    ids: sequentialIds(),
+    idempotency: new InMemoryIdempotencyStore(),
+    orders: new InMemoryOrderRepository(),
+    outbox: new InMemoryOutboxStore<OrderEffect>(),
+    ...overrides
+  };
+}
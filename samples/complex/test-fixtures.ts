@@ -0,0 +1,16 @@
+// ✅ TEST FIXTURES: The customer tests place orders for, varied by what each test needs
+// A fresh user on every call, so that a test updating its last login cannot leak into another
+
+import type { User } from './refactored-divided';
+
+export function testUser(overrides: Partial<User> = {}): User {
+  return {
+    id: 1,
+    name: 'Ada',
+    email: 'ada@example.com',
+    age: 36,
+    subscriptionLevel: 'free',
+    lastLoginDate: new Date(0),
+    ...overrides
+  };
+}
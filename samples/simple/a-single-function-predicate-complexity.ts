@@ -2,14 +2,14 @@
 // This example is inspired by the Gilded Rose Kata https://github.com/emilybache/GildedRose-Refactoring-Kata
 // The logic is obscured by complex boolean conditions
 
-interface Item {
+export interface Item {
   name: string;
   sellIn: number;
   quality: number;
 }
 
 // ❌ ANTI-PATTERN: Complex predicates make the intention unclear
-function updateItemQuality(item: Item): void {
+export function updateItemQuality(item: Item): void {
   // Update quality based on complex conditions
   if (
     (item.name !== 'Aged Brie' && item.name !== 'Backstage passes to a TAFKAL80ETC concert' && item.quality > 0 && (item.name !== 'Sulfuras, Hand of Ragnaros')) ||
@@ -0,0 +1,219 @@
+import {
+  AgeingRule,
+  AgeingRulesError,
+  applyAgeingRule,
+  findAgeingRule,
+  loadDefaultAgeingRules,
+  parseAgeingRules,
+  updateQualityWithRules
+} from './ageing-rules';
+import { findDivergences, generateFixtureItems } from './golden-master';
+import { Item, updateQuality } from './refactored-predicates';
+
+const validRule = {
+  name: 'Normal items degrade',
+  match: { type: 'regex', value: '.*' },
+  bands: [{ delta: -1 }],
+  bounds: { min: 0, max: 50 },
+  afterExpiry: { behaviour: 'multiply', factor: 2 }
+};
+
+function ruleFile(...rules: Record<string, unknown>[]): string {
+  return JSON.stringify({ rules });
+}
+
+// The problems reported for a rule file, or none when it loads
+function errorsOf(json: string): string[] {
+  try {
+    parseAgeingRules(json);
+    return [];
+  } catch (error) {
+    if (error instanceof AgeingRulesError) {
+      return error.errors;
+    }
+    throw error;
+  }
+}
+
+describe('Ageing rules loader', () => {
+  it('should load a valid rule file', () => {
+    expect(parseAgeingRules(ruleFile(validRule))).toEqual([{ ...validRule, agesSellIn: true }]);
+  });
+
+  it('should reject a file which is not JSON', () => {
+    expect(errorsOf('{"rules": [')).toEqual([expect.stringMatching(/^not valid JSON: /)]);
+  });
+
+  it('should reject a file without rules', () => {
+    expect(errorsOf('{}')).toEqual(['rules: expected an object with a "rules" array']);
+    expect(errorsOf('[]')).toEqual(['rules: expected an object with a "rules" array']);
+    expect(errorsOf('{"rules": []}')).toEqual(['rules: expected at least one rule']);
+  });
+
+  it('should reject unknown matcher types and invalid regular expressions', () => {
+    expect(errorsOf(ruleFile({ ...validRule, match: { type: 'glob', value: '*' } }))).toEqual([
+      'rules[0].match.type: expected "exact", "prefix" or "regex", got "glob"'
+    ]);
+    expect(errorsOf(ruleFile({ ...validRule, match: { type: 'regex', value: '(' } }))).toEqual([
+      expect.stringMatching(/^rules\[0\]\.match\.value: Invalid regular expression/)
+    ]);
+  });
+
+  it('should reject bands which are not sorted by increasing belowSellIn', () => {
+    const bands = [{ belowSellIn: 10, delta: 2 }, { belowSellIn: 5, delta: 3 }, { delta: 1 }];
+
+    expect(errorsOf(ruleFile({ ...validRule, bands }))).toEqual([
+      'rules[0].bands[1].belowSellIn: bands must be sorted by increasing belowSellIn'
+    ]);
+  });
+
+  it('should only let the last band apply without limit', () => {
+    expect(errorsOf(ruleFile({ ...validRule, bands: [{ belowSellIn: 5, delta: 3 }] }))).toEqual([
+      'rules[0].bands[0].belowSellIn: the last band must apply without limit'
+    ]);
+    expect(errorsOf(ruleFile({ ...validRule, bands: [{ delta: 3 }, { delta: 1 }] }))).toEqual([
+      'rules[0].bands[0].belowSellIn: only the last band can apply without limit'
+    ]);
+  });
+
+  it('should reject bounds whose min is greater than their max', () => {
+    expect(errorsOf(ruleFile({ ...validRule, bounds: { min: 50, max: 0 } }))).toEqual([
+      'rules[0].bounds: min 50 is greater than max 0'
+    ]);
+  });
+
+  it('should reject unknown behaviours after expiry', () => {
+    expect(errorsOf(ruleFile({ ...validRule, afterExpiry: { behaviour: 'halve' } }))).toEqual([
+      'rules[0].afterExpiry.behaviour: expected "unchanged", "multiply" or "set", got "halve"'
+    ]);
+  });
+
+  it('should report every problem of the file at once', () => {
+    expect(
+      errorsOf(ruleFile({ ...validRule, name: '', agesSellIn: 'no' }, { ...validRule, bands: [{ delta: 'one' }] }))
+    ).toEqual([
+      'rules[0].agesSellIn: expected a boolean, got "no"',
+      'rules[0].name: expected a non-empty string, got ""',
+      'rules[1].bands[0].delta: expected a number, got "one"'
+    ]);
+  });
+
+  it('should reject unknown keys, so that a misspelt setting is not silently ignored', () => {
+    const { bounds, ...withoutBounds } = validRule;
+
+    expect(errorsOf(ruleFile({ ...withoutBounds, bound: bounds }))).toEqual([
+      'rules[0].bound: unknown key, expected one of name, match, agesSellIn, bands, bounds, afterExpiry'
+    ]);
+    expect(
+      errorsOf(
+        ruleFile({
+          ...validRule,
+          match: { type: 'exact', value: 'Aged Brie', caseSensitive: true },
+          bands: [{ delta: -1, below: 5 }],
+          bounds: { min: 0, max: 50, step: 1 },
+          afterExpiry: { behaviour: 'unchanged', factor: 2 }
+        })
+      )
+    ).toEqual([
+      'rules[0].match.caseSensitive: unknown key, expected one of type, value',
+      'rules[0].bands[0].below: unknown key, expected one of belowSellIn, delta',
+      'rules[0].bounds.step: unknown key, expected one of min, max',
+      'rules[0].afterExpiry.factor: unknown key, expected one of behaviour'
+    ]);
+    expect(errorsOf(JSON.stringify({ rules: [validRule], version: 2 }))).toEqual([
+      'version: unknown key, expected one of rules'
+    ]);
+  });
+});
+
+describe('Ageing rules engine', () => {
+  const passes: AgeingRule = {
+    name: 'Passes',
+    match: { type: 'prefix', value: 'Pass' },
+    agesSellIn: true,
+    bands: [{ belowSellIn: 5, delta: 3 }, { belowSellIn: 10, delta: 2 }, { delta: 1 }],
+    afterExpiry: { behaviour: 'unchanged' }
+  };
+
+  function aged(item: Item, rule: AgeingRule): Item {
+    const copy = { ...item };
+    applyAgeingRule(copy, rule);
+    return copy;
+  }
+
+  it.each([
+    [11, 21],
+    [10, 22],
+    [6, 22],
+    [5, 23],
+    [2, 23]
+  ])('should use the band of the aged sellIn, from %i days to a quality of %i', (sellIn, quality) => {
+    expect(aged({ name: 'Pass', sellIn, quality: 20 }, passes)).toEqual({ name: 'Pass', sellIn: sellIn - 1, quality });
+  });
+
+  it('should keep the same change after expiry when the behaviour is unchanged', () => {
+    expect(aged({ name: 'Pass', sellIn: 0, quality: 20 }, passes).quality).toBe(23);
+  });
+
+  it('should multiply the change after expiry', () => {
+    const rule: AgeingRule = { ...passes, bands: [{ delta: -1 }], afterExpiry: { behaviour: 'multiply', factor: 3 } };
+
+    expect(aged({ name: 'Pass', sellIn: 1, quality: 20 }, rule).quality).toBe(19);
+    expect(aged({ name: 'Pass', sellIn: 0, quality: 20 }, rule).quality).toBe(17);
+  });
+
+  it('should set the quality after expiry', () => {
+    const rule: AgeingRule = { ...passes, afterExpiry: { behaviour: 'set', quality: 0 } };
+
+    expect(aged({ name: 'Pass', sellIn: 1, quality: 20 }, rule).quality).toBe(23);
+    expect(aged({ name: 'Pass', sellIn: 0, quality: 20 }, rule).quality).toBe(0);
+  });
+
+  it('should only clamp the quality of rules with bounds', () => {
+    const falling: AgeingRule = { ...passes, bands: [{ delta: -5 }] };
+
+    expect(aged({ name: 'Pass', sellIn: 5, quality: 2 }, falling).quality).toBe(-3);
+    expect(aged({ name: 'Pass', sellIn: 5, quality: 2 }, { ...falling, bounds: { min: 0, max: 50 } }).quality).toBe(0);
+    expect(aged({ name: 'Pass', sellIn: 5, quality: 49 }, { ...passes, bounds: { min: 0, max: 50 } }).quality).toBe(50);
+  });
+
+  it('should leave the sellIn of rules which do not age it', () => {
+    expect(aged({ name: 'Pass', sellIn: 5, quality: 20 }, { ...passes, agesSellIn: false }).sellIn).toBe(5);
+  });
+
+  it('should use the first rule matching an item', () => {
+    const catchAll: AgeingRule = { ...passes, name: 'Anything', match: { type: 'regex', value: '.*' } };
+
+    expect(findAgeingRule({ name: 'Pass', sellIn: 1, quality: 1 }, [passes, catchAll])).toBe(passes);
+    expect(findAgeingRule({ name: 'Vest', sellIn: 1, quality: 1 }, [passes, catchAll])).toBe(catchAll);
+    expect(findAgeingRule({ name: 'Pass', sellIn: 1, quality: 1 }, [catchAll, passes])).toBe(catchAll);
+  });
+
+  it('should report an item which no rule matches as an error of the rules', () => {
+    const rules = parseAgeingRules(ruleFile({ ...validRule, match: { type: 'prefix', value: 'Conjured' } }));
+
+    expect(() => findAgeingRule({ name: 'Aged Brie', sellIn: 1, quality: 1 }, rules)).toThrow(
+      new AgeingRulesError(['no rule matches item "Aged Brie"'])
+    );
+  });
+});
+
+describe('Default ageing rules', () => {
+  it('should age items as the predicate-based update does, conjured items aside', () => {
+    const rules = loadDefaultAgeingRules();
+    const items = [
+      ...generateFixtureItems(),
+      { name: 'Backstage passes to a TAFKAL80ETC tribute band', sellIn: 5, quality: 10 }
+    ];
+
+    const divergences = findDivergences(
+      (item) => updateQuality([item]),
+      (item) => updateQualityWithRules([item], rules),
+      30,
+      items
+    );
+
+    expect(divergences.filter((divergence) => !divergence.before.name.startsWith('Conjured'))).toEqual([]);
+    expect(divergences.map((divergence) => divergence.before.name)).toContain('Conjured Mana Cake');
+  });
+});
@@ -0,0 +1,292 @@
+// ✅ DATA-DRIVEN RULES: Quality rules live in a JSON file instead of in the code
+// The merchandising team edits the rule file, the engine below stays the same
+
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+import { hasExpired, Item } from './refactored-predicates';
+
+export interface NameMatcher {
+  type: 'exact' | 'prefix' | 'regex';
+  value: string;
+}
+
+// A band applies while sellIn is below belowSellIn; the last band has no limit
+export interface QualityBand {
+  belowSellIn?: number;
+  delta: number;
+}
+
+export interface QualityBounds {
+  min: number;
+  max: number;
+}
+
+export type AfterExpiry =
+  { behaviour: 'unchanged' } | { behaviour: 'multiply'; factor: number } | { behaviour: 'set'; quality: number };
+
+export interface AgeingRule {
+  name: string;
+  match: NameMatcher;
+  agesSellIn: boolean;
+  bands: QualityBand[];
+  bounds?: QualityBounds;
+  afterExpiry: AfterExpiry;
+}
+
+export class AgeingRulesError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid ageing rules:\n${errors.map((error) => `  - ${error}`).join('\n')}`);
+    this.name = 'AgeingRulesError';
+  }
+}
+
+// ✅ LOADER: Reports every problem of the rule file at once, with its exact location
+
+export function parseAgeingRules(json: string): AgeingRule[] {
+  let document: unknown;
+  try {
+    document = JSON.parse(json);
+  } catch (error) {
+    throw new AgeingRulesError([`not valid JSON: ${(error as Error).message}`]);
+  }
+
+  const errors: string[] = [];
+  const rules = readRules(document, errors);
+  if (errors.length > 0) {
+    throw new AgeingRulesError(errors);
+  }
+  return rules;
+}
+
+export function loadAgeingRules(path: string): AgeingRule[] {
+  return parseAgeingRules(readFileSync(path, 'utf8'));
+}
+
+// The built-in Gilded Rose behaviour
+export function loadDefaultAgeingRules(): AgeingRule[] {
+  return loadAgeingRules(join(__dirname, 'default-ageing-rules.json'));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readNumber(value: unknown, path: string, errors: string[]): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push(`${path}: expected a number, got ${JSON.stringify(value)}`);
+    return 0;
+  }
+  return value;
+}
+
+function readString(value: unknown, path: string, errors: string[]): string {
+  if (typeof value !== 'string' || value === '') {
+    errors.push(`${path}: expected a non-empty string, got ${JSON.stringify(value)}`);
+    return '';
+  }
+  return value;
+}
+
+// A misspelt key would otherwise be ignored, and the setting it was meant for silently missing
+function rejectUnknownKeys(record: Record<string, unknown>, known: string[], path: string, errors: string[]): void {
+  for (const key of Object.keys(record)) {
+    if (!known.includes(key)) {
+      errors.push(`${path}${path === '' ? '' : '.'}${key}: unknown key, expected one of ${known.join(', ')}`);
+    }
+  }
+}
+
+function readRules(document: unknown, errors: string[]): AgeingRule[] {
+  if (!isRecord(document) || !Array.isArray(document['rules'])) {
+    errors.push('rules: expected an object with a "rules" array');
+    return [];
+  }
+  rejectUnknownKeys(document, ['rules'], '', errors);
+  if (document['rules'].length === 0) {
+    errors.push('rules: expected at least one rule');
+  }
+  return document['rules'].map((rule: unknown, index) => readRule(rule, `rules[${index}]`, errors));
+}
+
+function readRule(rule: unknown, path: string, errors: string[]): AgeingRule {
+  if (!isRecord(rule)) {
+    errors.push(`${path}: expected an object`);
+    return {
+      name: '',
+      match: { type: 'exact', value: '' },
+      agesSellIn: true,
+      bands: [],
+      afterExpiry: { behaviour: 'unchanged' }
+    };
+  }
+
+  rejectUnknownKeys(rule, ['name', 'match', 'agesSellIn', 'bands', 'bounds', 'afterExpiry'], path, errors);
+  const agesSellIn = rule['agesSellIn'] ?? true;
+  if (typeof agesSellIn !== 'boolean') {
+    errors.push(`${path}.agesSellIn: expected a boolean, got ${JSON.stringify(agesSellIn)}`);
+  }
+
+  const name = readString(rule['name'], `${path}.name`, errors);
+  const match = readMatcher(rule['match'], `${path}.match`, errors);
+  const bands = readBands(rule['bands'], `${path}.bands`, errors);
+  const bounds = rule['bounds'] === undefined ? undefined : readBounds(rule['bounds'], `${path}.bounds`, errors);
+  const afterExpiry = readAfterExpiry(rule['afterExpiry'], `${path}.afterExpiry`, errors);
+
+  const parsed: AgeingRule = { name, match, agesSellIn: agesSellIn === true, bands, afterExpiry };
+  if (bounds) {
+    parsed.bounds = bounds;
+  }
+  return parsed;
+}
+
+function readMatcher(match: unknown, path: string, errors: string[]): NameMatcher {
+  if (!isRecord(match)) {
+    errors.push(`${path}: expected an object with a type and a value`);
+    return { type: 'exact', value: '' };
+  }
+
+  rejectUnknownKeys(match, ['type', 'value'], path, errors);
+  const type = match['type'];
+  const value = readString(match['value'], `${path}.value`, errors);
+  if (type !== 'exact' && type !== 'prefix' && type !== 'regex') {
+    errors.push(`${path}.type: expected "exact", "prefix" or "regex", got ${JSON.stringify(type)}`);
+    return { type: 'exact', value };
+  }
+  if (type === 'regex') {
+    try {
+      new RegExp(value);
+    } catch (error) {
+      errors.push(`${path}.value: ${(error as Error).message}`);
+    }
+  }
+  return { type, value };
+}
+
+function readBands(bands: unknown, path: string, errors: string[]): QualityBand[] {
+  if (!Array.isArray(bands) || bands.length === 0) {
+    errors.push(`${path}: expected a non-empty array of bands`);
+    return [];
+  }
+
+  return bands.map((band: unknown, index) => {
+    const bandPath = `${path}[${index}]`;
+    if (!isRecord(band)) {
+      errors.push(`${bandPath}: expected an object`);
+      return { delta: 0 };
+    }
+
+    rejectUnknownKeys(band, ['belowSellIn', 'delta'], bandPath, errors);
+    const delta = readNumber(band['delta'], `${bandPath}.delta`, errors);
+    const isLast = index === bands.length - 1;
+    if (band['belowSellIn'] === undefined) {
+      if (!isLast) {
+        errors.push(`${bandPath}.belowSellIn: only the last band can apply without limit`);
+      }
+      return { delta };
+    }
+
+    const belowSellIn = readNumber(band['belowSellIn'], `${bandPath}.belowSellIn`, errors);
+    const previousBand: unknown = bands[index - 1];
+    const previous = isRecord(previousBand) ? previousBand['belowSellIn'] : undefined;
+    if (typeof previous === 'number' && belowSellIn <= previous) {
+      errors.push(`${bandPath}.belowSellIn: bands must be sorted by increasing belowSellIn`);
+    }
+    if (isLast) {
+      errors.push(`${bandPath}.belowSellIn: the last band must apply without limit`);
+    }
+    return { belowSellIn, delta };
+  });
+}
+
+function readBounds(bounds: unknown, path: string, errors: string[]): QualityBounds {
+  if (!isRecord(bounds)) {
+    errors.push(`${path}: expected an object with a min and a max`);
+    return { min: 0, max: 0 };
+  }
+
+  rejectUnknownKeys(bounds, ['min', 'max'], path, errors);
+  const min = readNumber(bounds['min'], `${path}.min`, errors);
+  const max = readNumber(bounds['max'], `${path}.max`, errors);
+  if (min > max) {
+    errors.push(`${path}: min ${min} is greater than max ${max}`);
+  }
+  return { min, max };
+}
+
+function readAfterExpiry(afterExpiry: unknown, path: string, errors: string[]): AfterExpiry {
+  if (!isRecord(afterExpiry)) {
+    errors.push(`${path}: expected an object with a behaviour`);
+    return { behaviour: 'unchanged' };
+  }
+
+  switch (afterExpiry['behaviour']) {
+    case 'unchanged':
+      rejectUnknownKeys(afterExpiry, ['behaviour'], path, errors);
+      return { behaviour: 'unchanged' };
+    case 'multiply':
+      rejectUnknownKeys(afterExpiry, ['behaviour', 'factor'], path, errors);
+      return { behaviour: 'multiply', factor: readNumber(afterExpiry['factor'], `${path}.factor`, errors) };
+    case 'set':
+      rejectUnknownKeys(afterExpiry, ['behaviour', 'quality'], path, errors);
+      return { behaviour: 'set', quality: readNumber(afterExpiry['quality'], `${path}.quality`, errors) };
+    default:
+      errors.push(
+        `${path}.behaviour: expected "unchanged", "multiply" or "set", got ${JSON.stringify(afterExpiry['behaviour'])}`
+      );
+      return { behaviour: 'unchanged' };
+  }
+}
+
+// ✅ ENGINE: Applies the first rule matching each item; rules without a catch-all
+// fail on the first item none of them matches
+
+export function matchesName(matcher: NameMatcher, name: string): boolean {
+  switch (matcher.type) {
+    case 'exact':
+      return name === matcher.value;
+    case 'prefix':
+      return name.startsWith(matcher.value);
+    case 'regex':
+      return new RegExp(matcher.value).test(name);
+  }
+}
+
+export function findAgeingRule(item: Item, rules: AgeingRule[]): AgeingRule {
+  const rule = rules.find((candidate) => matchesName(candidate.match, item.name));
+  if (!rule) {
+    throw new AgeingRulesError([`no rule matches item "${item.name}"`]);
+  }
+  return rule;
+}
+
+function qualityDelta(item: Item, rule: AgeingRule): number {
+  const band = rule.bands.find(
+    (candidate) => candidate.belowSellIn === undefined || item.sellIn < candidate.belowSellIn
+  );
+  const delta = band?.delta ?? 0;
+  return hasExpired(item) && rule.afterExpiry.behaviour === 'multiply' ? delta * rule.afterExpiry.factor : delta;
+}
+
+export function applyAgeingRule(item: Item, rule: AgeingRule): void {
+  if (rule.agesSellIn) {
+    item.sellIn = item.sellIn - 1;
+  }
+
+  if (hasExpired(item) && rule.afterExpiry.behaviour === 'set') {
+    item.quality = rule.afterExpiry.quality;
+  } else {
+    item.quality = item.quality + qualityDelta(item, rule);
+  }
+
+  if (rule.bounds) {
+    item.quality = Math.min(rule.bounds.max, Math.max(rule.bounds.min, item.quality));
+  }
+}
+
+export function updateQualityWithRules(items: Item[], rules: AgeingRule[] = loadDefaultAgeingRules()): Item[] {
+  for (const item of items) {
+    applyAgeingRule(item, findAgeingRule(item, rules));
+  }
+  return items;
+}
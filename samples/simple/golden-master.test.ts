@@ -0,0 +1,125 @@
+import { updateItemQuality as legacyUpdateItemQuality } from './a-single-function-predicate-complexity';
+import { findDivergences, formatDivergences, generateFixtureItems, recordDays } from './golden-master';
+import {
+  hasExpired,
+  isAgedBrie,
+  isBackstagePass,
+  isSpecialItem,
+  isSulfuras,
+  Item,
+  updateQuality
+} from './refactored-predicates';
+
+interface IntendedChange {
+  rule: string;
+  // Whether the change explains a divergence on the day after the item was in this state
+  appliesTo: (before: Item) => boolean;
+}
+
+// The rules the full daily update changed on purpose; the legacy code is kept for every other item
+const INTENDED_CHANGES: IntendedChange[] = [
+  {
+    rule: 'Expired items lose quality twice as fast',
+    appliesTo: (item) => !isSpecialItem(item) && item.sellIn <= 0 && item.quality > 1
+  },
+  {
+    rule: 'Aged Brie keeps getting better after its sell by date, twice as fast',
+    appliesTo: (item) => isAgedBrie(item) && item.sellIn <= 0 && item.quality < 50
+  },
+  {
+    rule: 'Backstage passes gain 2 within 10 days of the concert and 3 within 5 days',
+    appliesTo: (item) => isBackstagePass(item) && item.sellIn >= 1 && item.sellIn <= 10 && item.quality < 49
+  },
+  {
+    rule: 'Backstage passes are worthless from the day of the concert',
+    appliesTo: (item) => isBackstagePass(item) && item.sellIn === 0
+  },
+  {
+    rule: 'Sulfuras keeps its quality of 80 after its sell by date',
+    appliesTo: (item) => isSulfuras(item) && hasExpired(item)
+  },
+  {
+    rule: 'Qualities above 50 come back to 50',
+    appliesTo: (item) => !isSulfuras(item) && item.quality > 50
+  }
+];
+
+// The legacy code only updates the quality: a whole day also brings the sell by date closer
+function legacyDay(item: Item): void {
+  legacyUpdateItemQuality(item);
+  if (item.name !== 'Sulfuras, Hand of Ragnaros') {
+    item.sellIn = item.sellIn - 1;
+  }
+}
+
+function refactoredDay(item: Item): void {
+  updateQuality([item]);
+}
+
+describe('Gilded Rose golden master', () => {
+  const DAYS = 30;
+
+  it('should generate items around every rule threshold', () => {
+    const items = generateFixtureItems();
+
+    expect(items).toContainEqual({ name: 'Backstage passes to a TAFKAL80ETC concert', sellIn: 11, quality: 49 });
+    expect(items).toContainEqual({ name: 'Aged Brie', sellIn: 0, quality: 50 });
+    expect(items).toContainEqual({ name: 'Sulfuras, Hand of Ragnaros', sellIn: -1, quality: 80 });
+  });
+
+  it('should record one snapshot per day without touching the given item', () => {
+    const item = { name: 'Elixir of the Mongoose', sellIn: 5, quality: 7 };
+
+    const snapshots = recordDays(item, legacyUpdateItemQuality, 2);
+
+    expect(snapshots).toEqual([
+      'Elixir of the Mongoose, 5, 7',
+      'Elixir of the Mongoose, 5, 6',
+      'Elixir of the Mongoose, 5, 5'
+    ]);
+    expect(item).toEqual({ name: 'Elixir of the Mongoose', sellIn: 5, quality: 7 });
+  });
+
+  it('should not report anything when both implementations behave the same', () => {
+    expect(findDivergences(legacyUpdateItemQuality, legacyUpdateItemQuality, DAYS)).toEqual([]);
+  });
+
+  it('should report the item, the day and both values of a divergence', () => {
+    const flooredAtFive = (item: Item): void => {
+      legacyUpdateItemQuality(item);
+      item.quality = Math.max(item.quality, 5);
+    };
+    const items = [{ name: 'Elixir of the Mongoose', sellIn: 5, quality: 7 }];
+
+    expect(findDivergences(legacyUpdateItemQuality, flooredAtFive, DAYS, items)).toEqual([
+      {
+        item: 'Elixir of the Mongoose, 5, 7',
+        day: 3,
+        before: { name: 'Elixir of the Mongoose', sellIn: 5, quality: 5 },
+        expected: 'Elixir of the Mongoose, 5, 4',
+        actual: 'Elixir of the Mongoose, 5, 5'
+      }
+    ]);
+  });
+
+  it('should only diverge from the legacy code where a rule was changed on purpose', () => {
+    const divergences = findDivergences(legacyDay, refactoredDay, DAYS);
+
+    const unexplained = divergences.filter(
+      (divergence) => !INTENDED_CHANGES.some((change) => change.appliesTo(divergence.before))
+    );
+    const unseen = INTENDED_CHANGES.filter(
+      (change) => !divergences.some((divergence) => change.appliesTo(divergence.before))
+    );
+
+    expect(unexplained).toEqual([]);
+    expect(unseen.map((change) => change.rule)).toEqual([]);
+  });
+
+  it('should format divergences one per line', () => {
+    expect(formatDivergences([])).toBe('No divergence');
+    expect(
+      formatDivergences(findDivergences(legacyDay, refactoredDay, 1, [{ name: 'Aged Brie', sellIn: 0, quality: 10 }]))
+    ).toBe('[Aged Brie, 0, 10] day 1: expected "Aged Brie, -1, 10", got "Aged Brie, -1, 12"');
+  });
+});
@@ -0,0 +1,97 @@
+// ✅ GOLDEN MASTER: Characterize legacy code before trusting a refactoring
+// Run two implementations on the same broad set of items, day after day,
+// and report where their text snapshots start to differ
+
+import { Item } from './refactored-predicates';
+
+export type ItemUpdate = (item: Item) => void;
+
+export interface Divergence {
+  item: string;
+  day: number;
+  // The item on the day before, still the same in both implementations
+  before: Item;
+  expected: string;
+  actual: string;
+}
+
+const FIXTURE_NAMES = [
+  '+5 Dexterity Vest',
+  'Aged Brie',
+  'Elixir of the Mongoose',
+  'Sulfuras, Hand of Ragnaros',
+  'Backstage passes to a TAFKAL80ETC concert',
+  'Conjured Mana Cake'
+];
+
+// Around every threshold of the rules: expiry, the 10 and 5 days of backstage passes
+const FIXTURE_SELL_INS = [-5, -1, 0, 1, 4, 5, 6, 9, 10, 11, 15];
+
+// Around both quality bounds, plus the legendary quality
+const FIXTURE_QUALITIES = [0, 1, 2, 10, 48, 49, 50, 80];
+
+export function generateFixtureItems(): Item[] {
+  return FIXTURE_NAMES.flatMap((name) =>
+    FIXTURE_SELL_INS.flatMap((sellIn) => FIXTURE_QUALITIES.map((quality) => ({ name, sellIn, quality })))
+  );
+}
+
+export function snapshotItem(item: Item): string {
+  return `${item.name}, ${item.sellIn}, ${item.quality}`;
+}
+
+function ageItem(item: Item, update: ItemUpdate, days: number): Item {
+  const copy = { ...item };
+  for (let day = 1; day <= days; day++) {
+    update(copy);
+  }
+  return copy;
+}
+
+// One snapshot per day, day 0 being the items as given
+export function recordDays(item: Item, update: ItemUpdate, days: number): string[] {
+  const copy = { ...item };
+  const snapshots = [snapshotItem(copy)];
+  for (let day = 1; day <= days; day++) {
+    update(copy);
+    snapshots.push(snapshotItem(copy));
+  }
+  return snapshots;
+}
+
+// Only the first divergent day of each item is reported: the days after it compare
+// items which are already different
+export function findDivergences(
+  expected: ItemUpdate,
+  actual: ItemUpdate,
+  days: number,
+  items: Item[] = generateFixtureItems()
+): Divergence[] {
+  return items.flatMap((item) => {
+    const expectedDays = recordDays(item, expected, days);
+    const actualDays = recordDays(item, actual, days);
+    const day = expectedDays.findIndex((snapshot, index) => snapshot !== actualDays[index]);
+
+    if (day === -1) {
+      return [];
+    }
+    return [
+      {
+        item: snapshotItem(item),
+        day,
+        before: ageItem(item, expected, day - 1),
+        expected: expectedDays[day] ?? '',
+        actual: actualDays[day] ?? ''
+      }
+    ];
+  });
+}
+
+export function formatDivergences(divergences: Divergence[]): string {
+  if (divergences.length === 0) {
+    return 'No divergence';
+  }
+  return divergences
+    .map(({ item, day, expected, actual }) => `[${item}] day ${day}: expected "${expected}", got "${actual}"`)
+    .join('\n');
+}
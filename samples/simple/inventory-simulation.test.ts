@@ -0,0 +1,68 @@
+import { formatSimulation, simulateInventory } from './inventory-simulation';
+
+describe('Gilded Rose inventory simulation', () => {
+  const inventory = [
+    { name: 'Elixir of the Mongoose', sellIn: 1, quality: 3 },
+    { name: 'Aged Brie', sellIn: 1, quality: 0 },
+    { name: 'Sulfuras, Hand of Ragnaros', sellIn: 0, quality: 80 }
+  ];
+
+  it('should report every item and the aggregates of each day', () => {
+    const reports = simulateInventory(inventory, 2);
+
+    expect(reports).toHaveLength(3);
+    expect(reports[2]).toEqual({
+      day: 2,
+      items: [
+        { name: 'Elixir of the Mongoose', sellIn: -1, quality: 0 },
+        { name: 'Aged Brie', sellIn: -1, quality: 3 },
+        { name: 'Sulfuras, Hand of Ragnaros', sellIn: 0, quality: 80 }
+      ],
+      totalQuality: 83,
+      expiredCount: 2,
+      zeroQualityCount: 1
+    });
+  });
+
+  it('should leave the given inventory untouched', () => {
+    simulateInventory(inventory, 5);
+
+    expect(inventory[0]).toEqual({ name: 'Elixir of the Mongoose', sellIn: 1, quality: 3 });
+  });
+
+  it('should print the days as plain text', () => {
+    const text = formatSimulation(simulateInventory(inventory, 1), 'text');
+
+    expect(text).toBe(
+      [
+        '-------- day 0 --------',
+        'name, sellIn, quality',
+        'Elixir of the Mongoose, 1, 3',
+        'Aged Brie, 1, 0',
+        'Sulfuras, Hand of Ragnaros, 0, 80',
+        'total quality: 83, expired: 0, at zero quality: 1',
+        '',
+        '-------- day 1 --------',
+        'name, sellIn, quality',
+        'Elixir of the Mongoose, 0, 2',
+        'Aged Brie, 0, 1',
+        'Sulfuras, Hand of Ragnaros, 0, 80',
+        'total quality: 83, expired: 0, at zero quality: 0'
+      ].join('\n')
+    );
+  });
+
+  it('should print one CSV row per item and day, quoting names with commas', () => {
+    const csv = formatSimulation(simulateInventory(inventory, 1), 'csv').split('\n');
+
+    expect(csv[0]).toBe('day,name,sellIn,quality,totalQuality,expiredCount,zeroQualityCount');
+    expect(csv[3]).toBe('0,"Sulfuras, Hand of Ragnaros",0,80,83,0,1');
+    expect(csv).toHaveLength(7);
+  });
+
+  it('should print the reports as JSON', () => {
+    const reports = simulateInventory(inventory, 1);
+
+    expect(JSON.parse(formatSimulation(reports, 'json'))).toEqual(reports);
+  });
+});
@@ -0,0 +1,89 @@
+// ✅ SIMULATION REPORT: How the value of the stock evolves over the next days
+// Replaces the ad-hoc console.log loops around updateItemQuality
+
+import { hasExpired, Item, updateQuality } from './refactored-predicates';
+
+export interface DayReport {
+  day: number;
+  items: Item[];
+  totalQuality: number;
+  expiredCount: number;
+  zeroQualityCount: number;
+}
+
+export type ReportFormat = 'text' | 'csv' | 'json';
+
+export type DailyUpdate = (items: Item[]) => Item[];
+
+function reportDay(day: number, items: Item[]): DayReport {
+  return {
+    day,
+    items: items.map((item) => ({ ...item })),
+    totalQuality: items.reduce((total, item) => total + item.quality, 0),
+    expiredCount: items.filter(hasExpired).length,
+    zeroQualityCount: items.filter((item) => item.quality === 0).length
+  };
+}
+
+// Day 0 is the inventory as given, which is left untouched
+export function simulateInventory(items: Item[], days: number, update: DailyUpdate = updateQuality): DayReport[] {
+  const inventory = items.map((item) => ({ ...item }));
+  const reports = [reportDay(0, inventory)];
+  for (let day = 1; day <= days; day++) {
+    update(inventory);
+    reports.push(reportDay(day, inventory));
+  }
+  return reports;
+}
+
+// ✅ FORMATTERS: One per output, all fed by the same reports
+
+function formatText(reports: DayReport[]): string {
+  return reports
+    .map((report) =>
+      [
+        `-------- day ${report.day} --------`,
+        'name, sellIn, quality',
+        ...report.items.map((item) => `${item.name}, ${item.sellIn}, ${item.quality}`),
+        `total quality: ${report.totalQuality}, expired: ${report.expiredCount}, at zero quality: ${report.zeroQualityCount}`
+      ].join('\n')
+    )
+    .join('\n\n');
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per item and day, with the aggregates of that day repeated on each row
+function formatCsv(reports: DayReport[]): string {
+  const header = 'day,name,sellIn,quality,totalQuality,expiredCount,zeroQualityCount';
+  const rows = reports.flatMap((report) =>
+    report.items.map((item) =>
+      [
+        report.day,
+        item.name,
+        item.sellIn,
+        item.quality,
+        report.totalQuality,
+        report.expiredCount,
+        report.zeroQualityCount
+      ]
+        .map(csvField)
+        .join(',')
+    )
+  );
+  return [header, ...rows].join('\n');
+}
+
+export function formatSimulation(reports: DayReport[], format: ReportFormat): string {
+  switch (format) {
+    case 'text':
+      return formatText(reports);
+    case 'csv':
+      return formatCsv(reports);
+    case 'json':
+      return JSON.stringify(reports, null, 2);
+  }
+}
@@ -0,0 +1,99 @@
+import {
+  agedItemUpdater,
+  backstageItemUpdater,
+  conjuredItemUpdater,
+  defaultItemUpdaters,
+  findItemUpdater,
+  ItemUpdater,
+  legendaryItemUpdater,
+  normalItemUpdater,
+  registerItemUpdater,
+  updateQualityWith
+} from './item-updaters';
+import { Item } from './refactored-predicates';
+
+function updated(item: Item, updaters: ItemUpdater[] = defaultItemUpdaters): Item {
+  const [result] = updateQualityWith([{ ...item }], updaters);
+  return result ?? item;
+}
+
+// One day of a single strategy, whatever the registry would choose for the item
+function updatedBy(updater: ItemUpdater, sellIn: number, quality: number): Omit<Item, 'name'> {
+  const item = { name: 'Item', sellIn, quality };
+  updater.update(item);
+  return { sellIn: item.sellIn, quality: item.quality };
+}
+
+describe('Item updaters', () => {
+  it('should degrade normal items by 1, by 2 once expired, never below 0', () => {
+    expect(updatedBy(normalItemUpdater, 5, 10)).toEqual({ sellIn: 4, quality: 9 });
+    expect(updatedBy(normalItemUpdater, 1, 10)).toEqual({ sellIn: 0, quality: 9 });
+    expect(updatedBy(normalItemUpdater, 0, 10)).toEqual({ sellIn: -1, quality: 8 });
+    expect(updatedBy(normalItemUpdater, -3, 1)).toEqual({ sellIn: -4, quality: 0 });
+  });
+
+  it('should improve aged items by 1, by 2 once expired, never above 50', () => {
+    expect(updatedBy(agedItemUpdater, 5, 10)).toEqual({ sellIn: 4, quality: 11 });
+    expect(updatedBy(agedItemUpdater, 1, 10)).toEqual({ sellIn: 0, quality: 11 });
+    expect(updatedBy(agedItemUpdater, 0, 10)).toEqual({ sellIn: -1, quality: 12 });
+    expect(updatedBy(agedItemUpdater, 0, 49)).toEqual({ sellIn: -1, quality: 50 });
+  });
+
+  it('should leave legendary items unchanged, even once expired', () => {
+    expect(updatedBy(legendaryItemUpdater, 5, 80)).toEqual({ sellIn: 5, quality: 80 });
+    expect(updatedBy(legendaryItemUpdater, 0, 80)).toEqual({ sellIn: 0, quality: 80 });
+    expect(updatedBy(legendaryItemUpdater, -1, 80)).toEqual({ sellIn: -1, quality: 80 });
+  });
+
+  it('should raise backstage passes by 1, 2 or 3 as the concert approaches and drop them to 0 after it', () => {
+    expect(updatedBy(backstageItemUpdater, 11, 20)).toEqual({ sellIn: 10, quality: 21 });
+    expect(updatedBy(backstageItemUpdater, 10, 20)).toEqual({ sellIn: 9, quality: 22 });
+    expect(updatedBy(backstageItemUpdater, 6, 20)).toEqual({ sellIn: 5, quality: 22 });
+    expect(updatedBy(backstageItemUpdater, 5, 20)).toEqual({ sellIn: 4, quality: 23 });
+    expect(updatedBy(backstageItemUpdater, 1, 48)).toEqual({ sellIn: 0, quality: 50 });
+    expect(updatedBy(backstageItemUpdater, 0, 20)).toEqual({ sellIn: -1, quality: 0 });
+  });
+
+  it('should degrade conjured items twice as fast as normal items, before and after expiry', () => {
+    expect(updated({ name: 'Conjured Mana Cake', sellIn: 3, quality: 10 })).toEqual({
+      name: 'Conjured Mana Cake',
+      sellIn: 2,
+      quality: 8
+    });
+    expect(updated({ name: 'Conjured Mana Cake', sellIn: 0, quality: 10 })).toMatchObject({ sellIn: -1, quality: 6 });
+    expect(updated({ name: 'Conjured Mana Cake', sellIn: 0, quality: 3 })).toMatchObject({ quality: 0 });
+  });
+
+  it('should update unknown items as normal items', () => {
+    const elixir = { name: 'Elixir of the Mongoose', sellIn: 0, quality: 7 };
+
+    expect(findItemUpdater(elixir)).toBe(normalItemUpdater);
+    expect(findItemUpdater({ name: 'Aged Brie', sellIn: 0, quality: 7 }, [])).toBe(normalItemUpdater);
+    expect(updated(elixir)).toMatchObject({ sellIn: -1, quality: 5 });
+  });
+
+  it('should use the first updater matching an item', () => {
+    const brie = { name: 'Aged Brie', sellIn: 5, quality: 10 };
+    const cheeseUpdater: ItemUpdater = { category: 'cheese', matches: () => true, update: () => undefined };
+
+    expect(findItemUpdater(brie, [agedItemUpdater, cheeseUpdater])).toBe(agedItemUpdater);
+    expect(findItemUpdater(brie, [cheeseUpdater, agedItemUpdater])).toBe(cheeseUpdater);
+  });
+
+  it('should add a category to a copy of the registry', () => {
+    const wineUpdater: ItemUpdater = {
+      category: 'wine',
+      matches: (item) => item.name.endsWith('Wine'),
+      update: (item) => {
+        item.quality = item.quality + 5;
+      }
+    };
+
+    const updaters = registerItemUpdater(defaultItemUpdaters, wineUpdater);
+
+    expect(updaters.map((updater) => updater.category)).toEqual(['legendary', 'aged', 'backstage', 'conjured', 'wine']);
+    expect(defaultItemUpdaters).not.toContain(wineUpdater);
+    expect(updated({ name: 'Fine Wine', sellIn: 5, quality: 10 }, updaters)).toMatchObject({ sellIn: 5, quality: 15 });
+    expect(findItemUpdater({ name: 'Conjured Mana Cake', sellIn: 5, quality: 10 }, updaters)).toBe(conjuredItemUpdater);
+  });
+});
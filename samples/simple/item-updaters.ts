@@ -0,0 +1,100 @@
+// ✅ STRATEGY REGISTRY: Each item category owns its ageing rule
+// Adding a category means registering one more updater, instead of editing
+// isSpecialItem and every should* predicate (shotgun surgery)
+
+import {
+  clampQuality,
+  hasExpired,
+  isAgedBrie,
+  isBackstagePass,
+  isConcertWithinDays,
+  isSulfuras,
+  Item,
+  updateItemSellIn
+} from './refactored-predicates';
+
+export interface ItemUpdater {
+  category: string;
+  matches: (item: Item) => boolean;
+  update: (item: Item) => void;
+}
+
+// ✅ STRATEGIES: One per category, each with its own daily change and its own behaviour after expiry
+
+export const normalItemUpdater: ItemUpdater = {
+  category: 'normal',
+  matches: () => true,
+  update: (item) => {
+    updateItemSellIn(item);
+    const degradation = hasExpired(item) ? 2 : 1;
+    item.quality = clampQuality(item.quality - degradation);
+  }
+};
+
+export const agedItemUpdater: ItemUpdater = {
+  category: 'aged',
+  matches: isAgedBrie,
+  update: (item) => {
+    updateItemSellIn(item);
+    // Aged Brie gets better with age, twice as fast once past its sell by date
+    const improvement = hasExpired(item) ? 2 : 1;
+    item.quality = clampQuality(item.quality + improvement);
+  }
+};
+
+export const legendaryItemUpdater: ItemUpdater = {
+  category: 'legendary',
+  matches: isSulfuras,
+  update: () => {
+    // Legendary items never have to be sold and never change in quality
+  }
+};
+
+export const backstageItemUpdater: ItemUpdater = {
+  category: 'backstage',
+  matches: isBackstagePass,
+  update: (item) => {
+    updateItemSellIn(item);
+    if (hasExpired(item)) {
+      // Worthless once the concert is over
+      item.quality = 0;
+      return;
+    }
+    const increase = isConcertWithinDays(item, 5) ? 3 : isConcertWithinDays(item, 10) ? 2 : 1;
+    item.quality = clampQuality(item.quality + increase);
+  }
+};
+
+export const conjuredItemUpdater: ItemUpdater = {
+  category: 'conjured',
+  matches: (item) => item.name.startsWith('Conjured'),
+  update: (item) => {
+    // Conjured items degrade twice as fast as normal items
+    updateItemSellIn(item);
+    const degradation = hasExpired(item) ? 4 : 2;
+    item.quality = clampQuality(item.quality - degradation);
+  }
+};
+
+// ✅ REGISTRY: The first matching updater wins, unknown items are normal items
+
+export function registerItemUpdater(updaters: ItemUpdater[], updater: ItemUpdater): ItemUpdater[] {
+  return [...updaters, updater];
+}
+
+export const defaultItemUpdaters: ItemUpdater[] = registerItemUpdater(
+  [legendaryItemUpdater, agedItemUpdater, backstageItemUpdater],
+  conjuredItemUpdater
+);
+
+export function findItemUpdater(item: Item, updaters: ItemUpdater[] = defaultItemUpdaters): ItemUpdater {
+  return updaters.find((updater) => updater.matches(item)) ?? normalItemUpdater;
+}
+
+// ✅ ORCHESTRATOR: One day in the inn, whatever the categories in stock
+export function updateQualityWith(items: Item[], updaters: ItemUpdater[] = defaultItemUpdaters): Item[] {
+  for (const item of items) {
+    findItemUpdater(item, updaters).update(item);
+  }
+  return items;
+}
@@ -0,0 +1,103 @@
+import fc from 'fast-check';
+
+import { loadDefaultAgeingRules, updateQualityWithRules } from './ageing-rules';
+import { recordDays } from './golden-master';
+import { updateQualityWith } from './item-updaters';
+import { isAgedBrie, isBackstagePass, isSulfuras, Item, updateQuality } from './refactored-predicates';
+
+type DailyUpdate = (items: Item[]) => Item[];
+type Invariant = (previous: Item, next: Item) => boolean;
+
+const MAX_DAYS = 60;
+const defaultAgeingRules = loadDefaultAgeingRules();
+
+const itemArbitrary: fc.Arbitrary<Item> = fc.oneof(
+  fc.record({
+    name: fc.constantFrom(
+      '+5 Dexterity Vest',
+      'Aged Brie',
+      'Backstage passes to a TAFKAL80ETC concert',
+      'Conjured Mana Cake',
+      'Elixir of the Mongoose'
+    ),
+    sellIn: fc.integer({ min: -10, max: 30 }),
+    quality: fc.integer({ min: 0, max: 50 })
+  }),
+  fc.record({
+    name: fc.constant('Sulfuras, Hand of Ragnaros'),
+    sellIn: fc.integer({ min: -10, max: 30 }),
+    quality: fc.constant(80)
+  })
+);
+
+function timeline(update: DailyUpdate, item: Item, days: number): string {
+  return recordDays(item, (copy) => update([copy]), days)
+    .map((snapshot, day) => `  day ${day}: ${snapshot}`)
+    .join('\n');
+}
+
+// Checks the invariant after every day and prints the shrunk counterexample day by day
+function assertInvariant(update: DailyUpdate, invariant: Invariant): void {
+  const property = fc.property(itemArbitrary, fc.integer({ min: 1, max: MAX_DAYS }), (item, days) => {
+    const current = { ...item };
+    for (let day = 1; day <= days; day++) {
+      const previous = { ...current };
+      update([current]);
+      if (!invariant(previous, current)) {
+        return false;
+      }
+    }
+    return true;
+  });
+
+  fc.assert(property, {
+    reporter: (details) => {
+      if (details.failed && details.counterexample) {
+        const [item, days] = details.counterexample;
+        throw new Error(`Invariant broken, shrunk after ${details.numShrinks} steps:\n${timeline(update, item, days)}`);
+      }
+    }
+  });
+}
+
+describe.each<[string, DailyUpdate]>([
+  ['named predicates', updateQuality],
+  ['item updater registry', (items) => updateQualityWith(items)],
+  ['default ageing rules', (items) => updateQualityWithRules(items, defaultAgeingRules)]
+])('Gilded Rose quality invariants with the %s', (_, update) => {
+  it('should never make quality negative', () => {
+    assertInvariant(update, (_previous, next) => next.quality >= 0);
+  });
+
+  it('should never raise quality above 50 except for Sulfuras', () => {
+    assertInvariant(update, (_previous, next) => isSulfuras(next) || next.quality <= 50);
+  });
+
+  it('should never change Sulfuras', () => {
+    assertInvariant(
+      update,
+      (previous, next) => !isSulfuras(next) || (next.quality === 80 && next.sellIn === previous.sellIn)
+    );
+  });
+
+  it('should never decrease the quality of Aged Brie', () => {
+    assertInvariant(update, (previous, next) => !isAgedBrie(next) || next.quality >= previous.quality);
+  });
+
+  it('should drop backstage passes to 0 after the concert', () => {
+    assertInvariant(update, (_previous, next) => !isBackstagePass(next) || next.sellIn >= 0 || next.quality === 0);
+  });
+});
+
+describe('Gilded Rose quality invariant report', () => {
+  it('should print the shrunk counterexample as a timeline', () => {
+    const brokenUpdate: DailyUpdate = (items) => {
+      items.forEach((item) => (item.quality = item.quality - 1));
+      return items;
+    };
+
+    expect(() => assertInvariant(brokenUpdate, (_previous, next) => next.quality >= 0)).toThrow(
+      /day 0: [^\n]*, 0\n  day 1: [^\n]*, -1$/
+    );
+  });
+});
@@ -0,0 +1,60 @@
+import { Item, updateQuality } from './refactored-predicates';
+
+const BRIE = 'Aged Brie';
+const PASS = 'Backstage passes to a TAFKAL80ETC concert';
+const SULFURAS = 'Sulfuras, Hand of Ragnaros';
+const VEST = '+5 Dexterity Vest';
+
+function afterOneDay(name: string, sellIn: number, quality: number): Omit<Item, 'name'> {
+  const [item] = updateQuality([{ name, sellIn, quality }]);
+  return { sellIn: item?.sellIn ?? NaN, quality: item?.quality ?? NaN };
+}
+
+describe('Gilded Rose daily update rules', () => {
+  it('should bring every item but Sulfuras one day closer to its sell by date', () => {
+    expect(afterOneDay(VEST, 10, 20).sellIn).toBe(9);
+    expect(afterOneDay(BRIE, 0, 20).sellIn).toBe(-1);
+    expect(afterOneDay(PASS, 3, 20).sellIn).toBe(2);
+    expect(afterOneDay(SULFURAS, 3, 80).sellIn).toBe(3);
+  });
+
+  it.each([
+    ['a normal item due in a day', VEST, 1, 19],
+    ['a normal item due today', VEST, 0, 18],
+    ['a normal item long expired', VEST, -3, 18],
+    ['Aged Brie due in a day', BRIE, 1, 21],
+    ['Aged Brie due today', BRIE, 0, 22]
+  ])('should change the quality of %s, twice as fast once expired', (_, name, sellIn, quality) => {
+    expect(afterOneDay(name, sellIn, 20).quality).toBe(quality);
+  });
+
+  it.each([
+    [11, 21],
+    [10, 22],
+    [6, 22],
+    [5, 23],
+    [1, 23]
+  ])('should raise backstage passes with %i days left before the concert from 20 to %i', (sellIn, quality) => {
+    expect(afterOneDay(PASS, sellIn, 20).quality).toBe(quality);
+  });
+
+  it('should drop backstage passes to 0 after the concert', () => {
+    expect(afterOneDay(PASS, 0, 20)).toEqual({ sellIn: -1, quality: 0 });
+    expect(afterOneDay(PASS, -5, 0)).toEqual({ sellIn: -6, quality: 0 });
+  });
+
+  it('should keep Sulfuras at a quality of 80, even past its sell by date', () => {
+    expect(afterOneDay(SULFURAS, 5, 80)).toEqual({ sellIn: 5, quality: 80 });
+    expect(afterOneDay(SULFURAS, -1, 80)).toEqual({ sellIn: -1, quality: 80 });
+  });
+
+  it.each([
+    ['a normal item at 0', VEST, 5, 0, 0],
+    ['an expired item at 1', VEST, 0, 1, 0],
+    ['Aged Brie at 50', BRIE, 5, 50, 50],
+    ['expired Aged Brie at 49', BRIE, 0, 49, 50],
+    ['backstage passes at 49', PASS, 3, 49, 50]
+  ])('should keep the quality of %s within 0 to 50', (_, name, sellIn, quality, expected) => {
+    expect(afterOneDay(name, sellIn, quality).quality).toBe(expected);
+  });
+});
@@ -2,88 +2,151 @@
 // Each predicate function has a clear, self-documenting name
 // This example is inspired by the Tennis Kata and Gilded Rose Kata
 
-interface Item {
+export interface Item {
   name: string;
   sellIn: number;
   quality: number;
 }
 
+// ✅ NAMED CONSTANTS: The business rules of the Gilded Rose, made explicit
+
+const MINIMUM_QUALITY = 0;
+const MAXIMUM_QUALITY = 50;
+const BACKSTAGE_PASS_SECOND_INCREASE_DAYS = 10;
+const BACKSTAGE_PASS_THIRD_INCREASE_DAYS = 5;
+
 // ✅ PREDICATE FUNCTIONS: Each one has a clear, intention-revealing name
 
-function isAgedBrie(item: Item): boolean {
+export function isAgedBrie(item: Item): boolean {
   return item.name === 'Aged Brie';
 }
 
-function isBackstagePass(item: Item): boolean {
+export function isBackstagePass(item: Item): boolean {
   return item.name === 'Backstage passes to a TAFKAL80ETC concert';
 }
 
-function isSulfuras(item: Item): boolean {
+export function isSulfuras(item: Item): boolean {
   return item.name === 'Sulfuras, Hand of Ragnaros';
 }
 
-function isSpecialItem(item: Item): boolean {
-
+export function isSpecialItem(item: Item): boolean {
   return isAgedBrie(item) || isBackstagePass(item) || isSulfuras(item);
 }
 
-function hasQualityToDecrease(item: Item): boolean {
-  return item.quality > 0;
+export function hasQualityToDecrease(item: Item): boolean {
+  return item.quality > MINIMUM_QUALITY;
 }
 
-function hasQualityToIncrease(item: Item): boolean {
-  return item.quality < 50;
+export function hasQualityToIncrease(item: Item): boolean {
+  return item.quality < MAXIMUM_QUALITY;
 }
 
-function hasExpired(item: Item): boolean {
+export function hasExpired(item: Item): boolean {
   return item.sellIn < 0;
 }
 
-
+export function isConcertWithinDays(item: Item, days: number): boolean {
+  return item.sellIn < days;
+}
 
 // ✅ BUSINESS RULE PREDICATES: Combine simple predicates into meaningful rules
 
-function shouldDecreaseQuality(item: Item): boolean {
+export function shouldAgeSellIn(item: Item): boolean {
+  // Sulfuras never has to be sold
+  return !isSulfuras(item);
+}
+
+export function shouldDecreaseQuality(item: Item): boolean {
   // Normal items decrease in quality
   // Special items don't decrease
-
   return !isSpecialItem(item) && hasQualityToDecrease(item);
 }
 
-function shouldIncreaseQuality(item: Item): boolean {
+export function shouldIncreaseQuality(item: Item): boolean {
   // Aged Brie and Backstage passes increase in quality
   // But only if quality hasn't reached max
   return (isAgedBrie(item) || isBackstagePass(item)) && hasQualityToIncrease(item);
 }
 
-function shouldIncreaseQualityMoreRapidly(item: Item): boolean {
-  // Backstage passes increase more rapidly as the concert approaches
-  return isBackstagePass(item) && (hasExpired(item) === false) && hasQualityToIncrease(item);
-  //TODO find something to refactor here
+export function shouldIncreaseQualityMoreRapidly(item: Item): boolean {
+  // Backstage passes increase by 2 when there are 10 days or less
+  return isBackstagePass(item) && isConcertWithinDays(item, BACKSTAGE_PASS_SECOND_INCREASE_DAYS);
+}
+
+export function shouldIncreaseQualityMostRapidly(item: Item): boolean {
+  // ... and by 3 when there are 5 days or less
+  return isBackstagePass(item) && isConcertWithinDays(item, BACKSTAGE_PASS_THIRD_INCREASE_DAYS);
+}
+
+export function shouldChangeQualityTwiceAsFast(item: Item): boolean {
+  // Once the sell by date has passed, quality changes twice as fast
+  return hasExpired(item) && !isBackstagePass(item);
 }
 
-function shouldLoseAllQualityAfterEvent(item: Item): boolean {
+export function shouldLoseAllQualityAfterEvent(item: Item): boolean {
   // Backstage passes lose all value after the concert
   return isBackstagePass(item) && hasExpired(item);
 }
 
-// ✅ ORCHESTRATOR: Now the logic is crystal clear
-function updateItemQuality(item: Item): void {
-  if (shouldDecreaseQuality(item)) {
-    item.quality = item.quality - 1;
+export function shouldKeepQualityInBounds(item: Item): boolean {
+  // Sulfuras is legendary: its quality of 80 is out of the usual bounds
+  return !isSulfuras(item);
+}
+
+// ✅ SMALL HELPERS: Each one answers a single question
+
+export function qualityIncrease(item: Item): number {
+  if (shouldIncreaseQualityMostRapidly(item)) {
+    return 3;
+  }
+  if (shouldIncreaseQualityMoreRapidly(item)) {
+    return 2;
   }
+  return 1;
+}
 
-  if (shouldIncreaseQuality(item)) {
-    item.quality = item.quality + 1;
+export function expiryFactor(item: Item): number {
+  return shouldChangeQualityTwiceAsFast(item) ? 2 : 1;
+}
+
+export function clampQuality(quality: number): number {
+  return Math.min(MAXIMUM_QUALITY, Math.max(MINIMUM_QUALITY, quality));
+}
+
+// ✅ ORCHESTRATORS: Now the logic is crystal clear
+
+// Updates the quality of an item whose sellIn has already been aged for the day
+export function updateItemQuality(item: Item): void {
+  if (shouldDecreaseQuality(item)) {
+    item.quality = item.quality - expiryFactor(item);
   }
 
-  if (shouldIncreaseQualityMoreRapidly(item)) {
-    item.quality = item.quality + 1;
+  if (shouldIncreaseQuality(item)) {
+    item.quality = item.quality + qualityIncrease(item) * expiryFactor(item);
   }
 
   if (shouldLoseAllQualityAfterEvent(item)) {
     item.quality = 0;
   }
+
+  if (shouldKeepQualityInBounds(item)) {
+    item.quality = clampQuality(item.quality);
+  }
+}
+
+export function updateItemSellIn(item: Item): void {
+  if (shouldAgeSellIn(item)) {
+    item.sellIn = item.sellIn - 1;
+  }
+}
+
+// One day in the inn: every item gets closer to its sell by date, then changes in quality
+export function updateQuality(items: Item[]): Item[] {
+  for (const item of items) {
+    updateItemSellIn(item);
+    updateItemQuality(item);
+  }
+  return items;
 }
 
 // ✅ BENEFITS OF THIS APPROACH:
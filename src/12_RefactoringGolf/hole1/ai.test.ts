@@ -0,0 +1,113 @@
+import { BestMove } from './ai';
+import { Game, Player } from './kata';
+
+describe('TicTacToe AI', () => {
+  function playOut(game: Game): void {
+    for (let status = game.Status(); status.Kind == 'InProgress'; status = game.Status()) {
+      const move = BestMove(game);
+      game.Play(status.NextPlayer, move.X, move.Y);
+    }
+  }
+
+  // every game the opponent can play against the AI, looking for one the AI loses
+  function findLoss(game: Game, ai: Player): string | undefined {
+    const status = game.Status();
+    if (status.Kind == 'Won' && status.Winner != ai) {
+      return game.toNotation();
+    }
+    if (status.Kind != 'InProgress') {
+      return undefined;
+    }
+
+    const moves = status.NextPlayer == ai ? [BestMove(game)] : game.AvailableMoves();
+    for (const move of moves) {
+      game.Play(status.NextPlayer, move.X, move.Y);
+      const loss = findLoss(game, ai);
+      game.Undo();
+
+      if (loss) {
+        return loss;
+      }
+    }
+
+    return undefined;
+  }
+
+  it('should complete its own line to win', () => {
+    const game = Game.fromNotation('XX.|OO.|... X');
+
+    expect(BestMove(game)).toEqual({ X: 0, Y: 2 });
+  });
+
+  it('should block the opponent line', () => {
+    const game = Game.fromNotation('XX.|.O.|... O');
+
+    expect(BestMove(game)).toEqual({ X: 0, Y: 2 });
+  });
+
+  it('should return the same move for the same position', () => {
+    const game = Game.fromNotation('X..|...|... O');
+
+    expect(BestMove(game)).toEqual(BestMove(Game.fromNotation('X..|...|... O')));
+  });
+
+  it('should leave the given game untouched', () => {
+    const game = new Game();
+    game.Play('X', 1, 1);
+
+    BestMove(game);
+
+    expect(game.toNotation()).toBe('...|.X.|... O');
+    expect(game.History()).toHaveLength(1);
+  });
+
+  it('should refuse to choose a move once the game is over', () => {
+    const game = Game.fromNotation('XXX|OO.|... -');
+
+    expect(() => BestMove(game)).toThrow('Game is over');
+  });
+
+  it('should draw against itself', () => {
+    const game = new Game();
+
+    playOut(game);
+
+    expect(game.Status()).toEqual({ Kind: 'Draw' });
+  });
+
+  it.each([0, 1, 2])('should draw against itself after any opening in row %i', (x) => {
+    for (let y = 0; y < 3; y++) {
+      const game = new Game();
+      game.Play('X', x, y);
+
+      playOut(game);
+
+      expect(game.Status()).toEqual({ Kind: 'Draw' });
+    }
+  });
+
+  it.each<Player>(['X', 'O'])('should never lose as %s', (ai) => {
+    expect(findLoss(new Game(), ai)).toBeUndefined();
+  });
+
+  it('should still play a legal move when its search depth is limited', () => {
+    const game = Game.fromNotation('X..|...|... O');
+
+    const move = BestMove(game, { MaxDepth: 1 });
+
+    expect(game.AvailableMoves()).toContainEqual(move);
+  });
+
+  it('should play a random move when it blunders', () => {
+    const game = Game.fromNotation('XX.|OO.|... X');
+    const random = jest.fn().mockReturnValueOnce(0).mockReturnValueOnce(0.99);
+
+    expect(BestMove(game, { BlunderRate: 0.5, Random: random })).toEqual({ X: 2, Y: 2 });
+  });
+
+  it('should play its best move when it does not blunder', () => {
+    const game = Game.fromNotation('XX.|OO.|... X');
+
+    expect(BestMove(game, { BlunderRate: 0.5, Random: () => 0.5 })).toEqual({ X: 0, Y: 2 });
+  });
+});
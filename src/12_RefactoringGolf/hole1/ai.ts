@@ -0,0 +1,76 @@
+import { Coordinates, Game } from './kata';
+
+// winning sooner scores higher, so the AI finishes games instead of toying with them
+const WIN_SCORE = 1000;
+
+// how hard the computer plays: MaxDepth limits how many moves ahead it looks and
+// BlunderRate is the probability of playing a random move instead of the best one
+export interface Difficulty {
+  MaxDepth: number;
+  BlunderRate: number;
+}
+
+export interface AiOptions extends Difficulty {
+  Random: () => number;
+}
+
+const UNBEATABLE: AiOptions = { MaxDepth: Infinity, BlunderRate: 0, Random: Math.random };
+
+// minimax with alpha-beta pruning; ties go to the first move in row-major order so the
+// same position always gets the same answer. A full search is only practical on small
+// boards: set MaxDepth on larger ones.
+export function BestMove(game: Game, options: Partial<AiOptions> = {}): Coordinates {
+  const { MaxDepth, BlunderRate, Random } = { ...UNBEATABLE, ...options };
+  const status = game.Status();
+  if (status.Kind != 'InProgress') {
+    throw new Error('Game is over: there is no move to choose');
+  }
+
+  const moves = game.AvailableMoves();
+  if (BlunderRate > 0 && Random() < BlunderRate) {
+    return moves[Math.floor(Random() * moves.length)]!;
+  }
+
+  // search on a copy so the caller's game, history and redo stack stay untouched
+  const search = Game.fromJSON(game.toJSON());
+  let best = moves[0]!;
+  let bestScore = -Infinity;
+  for (const move of moves) {
+    search.Play(status.NextPlayer, move.X, move.Y);
+    const score = -Negamax(search, 1, MaxDepth, -Infinity, -bestScore);
+    search.Undo();
+
+    if (score > bestScore) {
+      best = move;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+// score of the position for the player about to move
+function Negamax(game: Game, depth: number, maxDepth: number, alpha: number, beta: number): number {
+  const status = game.Status();
+  if (status.Kind == 'Won') {
+    return depth - WIN_SCORE;
+  }
+  if (status.Kind == 'Draw' || depth >= maxDepth) {
+    return 0;
+  }
+
+  let best = -Infinity;
+  for (const move of game.AvailableMoves()) {
+    game.Play(status.NextPlayer, move.X, move.Y);
+    const score = -Negamax(game, depth + 1, maxDepth, -beta, -alpha);
+    game.Undo();
+
+    best = Math.max(best, score);
+    alpha = Math.max(alpha, score);
+    if (alpha >= beta) {
+      break;
+    }
+  }
+
+  return best;
+}
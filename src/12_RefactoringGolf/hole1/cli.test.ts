@@ -0,0 +1,78 @@
+import { PlayInTerminal, Terminal } from './cli';
+import { Game } from './kata';
+
+describe('TicTacToe terminal', () => {
+  function fakeTerminal(answers: string[]): Terminal & { Output: string[] } {
+    const output: string[] = [];
+
+    return {
+      Output: output,
+      Ask: (question) => {
+        output.push(question);
+        return Promise.resolve(answers.shift() ?? 'q');
+      },
+      Print: (text) => {
+        output.push(text);
+      },
+    };
+  }
+
+  it('should play a game between two humans until someone wins', async () => {
+    const terminal = fakeTerminal(['0 0', '1 0', '0 1', '1 1', '0 2']);
+
+    const status = await PlayInTerminal(terminal);
+
+    expect(status).toMatchObject({ Kind: 'Won', Winner: 'X' });
+    expect(terminal.Output.at(-1)).toBe('X wins!');
+  });
+
+  it('should explain an illegal move and ask again', async () => {
+    const terminal = fakeTerminal(['1 1', '1 1', '0 0']);
+    const game = new Game();
+
+    await PlayInTerminal(terminal, game);
+
+    expect(terminal.Output).toContain('Invalid position: (1, 1) is already taken');
+    expect(game.toNotation()).toBe('O..|.X.|... X');
+  });
+
+  it('should ask again when the answer is not a pair of coordinates', async () => {
+    const terminal = fakeTerminal(['middle', '1 1']);
+    const game = new Game();
+
+    await PlayInTerminal(terminal, game);
+
+    expect(terminal.Output).toContain("Cannot read 'middle': type a row and a column, e.g. 1 2");
+    expect(game.toNotation()).toBe('...|.X.|... O');
+  });
+
+  it('should stop when a human quits', async () => {
+    const terminal = fakeTerminal(['q']);
+
+    const status = await PlayInTerminal(terminal);
+
+    expect(status).toEqual({ Kind: 'InProgress', NextPlayer: 'X' });
+  });
+
+  it('should let the computer answer a human', async () => {
+    const terminal = fakeTerminal(['0 0', '2 2', '0 2', '1 0', '2 1']);
+    const game = new Game();
+
+    const status = await PlayInTerminal(terminal, game, { Players: { X: 'Human', O: 'Computer' } });
+
+    expect(status.Kind).not.toBe('InProgress');
+    expect(status).not.toMatchObject({ Winner: 'X' });
+    expect(terminal.Output.filter((line) => line.startsWith('O plays'))).not.toHaveLength(0);
+  });
+
+  it('should draw when the computer plays both sides', async () => {
+    const terminal = fakeTerminal([]);
+
+    const status = await PlayInTerminal(terminal, new Game(), {
+      Players: { X: 'Computer', O: 'Computer' },
+    });
+
+    expect(status).toEqual({ Kind: 'Draw' });
+    expect(terminal.Output.at(-1)).toBe('Draw!');
+  });
+});
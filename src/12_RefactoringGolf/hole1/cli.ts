@@ -0,0 +1,102 @@
+import * as readline from 'node:readline/promises';
+
+import { BestMove, Difficulty } from './ai';
+import { IllegalMoveError } from './errors';
+import { Game, GameStatus, Player } from './kata';
+import { Render } from './renderer';
+
+export interface Terminal {
+  Ask(question: string): Promise<string>;
+  Print(text: string): void;
+}
+
+export type Controller = 'Human' | 'Computer';
+
+export interface TerminalGameOptions {
+  Players: Record<Player, Controller>;
+  Difficulty: Partial<Difficulty>;
+}
+
+const QUIT = 'q';
+
+// plays until the game is over or a human quits, re-prompting on illegal moves
+export async function PlayInTerminal(
+  terminal: Terminal,
+  game: Game = new Game(),
+  options: Partial<TerminalGameOptions> = {},
+): Promise<GameStatus> {
+  const players = options.Players ?? { X: 'Human', O: 'Human' };
+
+  terminal.Print(Render(game));
+  for (let status = game.Status(); status.Kind == 'InProgress'; status = game.Status()) {
+    const player = status.NextPlayer;
+
+    if (players[player] == 'Computer') {
+      const move = BestMove(game, options.Difficulty ?? {});
+      game.Play(player, move.X, move.Y);
+      terminal.Print(`${player} plays ${move.X} ${move.Y}`);
+    } else {
+      const answer = (
+        await terminal.Ask(`${player} to play, row and column (${QUIT} to quit): `)
+      ).trim();
+      if (answer == QUIT) {
+        return status;
+      }
+
+      const coordinates = answer.split(/[\s,]+/).map(Number);
+      if (coordinates.length != 2 || coordinates.some(Number.isNaN)) {
+        terminal.Print(`Cannot read '${answer}': type a row and a column, e.g. 1 2`);
+        continue;
+      }
+
+      const [x = 0, y = 0] = coordinates;
+      try {
+        game.Play(player, x, y);
+      } catch (error) {
+        if (!(error instanceof IllegalMoveError)) {
+          throw error;
+        }
+        terminal.Print(error.message);
+        continue;
+      }
+    }
+
+    terminal.Print(Render(game));
+  }
+
+  const status = game.Status();
+  terminal.Print(status.Kind == 'Won' ? `${status.Winner} wins!` : 'Draw!');
+
+  return status;
+}
+
+export function ConsoleTerminal(
+  input: NodeJS.ReadableStream = process.stdin,
+  output: NodeJS.WritableStream = process.stdout,
+): Terminal & { Close(): void } {
+  const rl = readline.createInterface({ input, output });
+
+  return {
+    Ask: (question) => rl.question(question),
+    Print: (text) => output.write(`${text}\n`),
+    Close: () => rl.close(),
+  };
+}
+
+// pass X or O as argument to let the computer play that side
+if (require.main === module) {
+  const computer = process.argv[2];
+  const terminal = ConsoleTerminal();
+
+  PlayInTerminal(terminal, new Game(), {
+    Players: {
+      X: computer == 'X' ? 'Computer' : 'Human',
+      O: computer == 'O' ? 'Computer' : 'Human',
+    },
+  })
+    .catch((error: unknown) => {
+      console.error(error);
+      process.exitCode = 1;
+    })
+    .finally(() => terminal.Close());
+}
@@ -0,0 +1,58 @@
+// base class of every move rejected by Game.Play, carrying the attempted move
+export abstract class IllegalMoveError extends Error {
+  public readonly Symbol: string;
+  public readonly X: number;
+  public readonly Y: number;
+
+  constructor(message: string, symbol: string, x: number, y: number) {
+    super(message);
+    this.name = new.target.name;
+    this.Symbol = symbol;
+    this.X = x;
+    this.Y = y;
+  }
+}
+
+export class InvalidSymbolError extends IllegalMoveError {
+  constructor(symbol: string, x: number, y: number) {
+    super(`Invalid symbol: '${symbol}' is not a player`, symbol, x, y);
+  }
+}
+
+export class WrongFirstPlayerError extends IllegalMoveError {
+  constructor(symbol: string, x: number, y: number) {
+    super(`Invalid first player: ${symbol} cannot open the game`, symbol, x, y);
+  }
+}
+
+export class OutOfTurnError extends IllegalMoveError {
+  constructor(symbol: string, x: number, y: number) {
+    super(`Invalid next player: ${symbol} cannot play twice in a row`, symbol, x, y);
+  }
+}
+
+export class OutOfBoundsError extends IllegalMoveError {
+  constructor(symbol: string, x: number, y: number) {
+    super(`Invalid position: (${x}, ${y}) is outside the board`, symbol, x, y);
+  }
+}
+
+export class OccupiedTileError extends IllegalMoveError {
+  constructor(symbol: string, x: number, y: number) {
+    super(`Invalid position: (${x}, ${y}) is already taken`, symbol, x, y);
+  }
+}
+
+export class GameOverError extends IllegalMoveError {
+  constructor(symbol: string, x: number, y: number) {
+    super(`Game is over: ${symbol} cannot play at (${x}, ${y})`, symbol, x, y);
+  }
+}
+
+// a serialized game that cannot be restored to a position reachable by legal play
+export class InvalidGameRecordError extends Error {
+  constructor(reason: string) {
+    super(`Invalid game record: ${reason}`);
+    this.name = new.target.name;
+  }
+}
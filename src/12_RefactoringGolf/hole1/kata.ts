@@ -1,109 +1,526 @@
 /* eslint-disable */
 
-// what's wrong within this code ?? trouvez la variable avec un nom vraiment bizarre
+import {
+  GameOverError,
+  IllegalMoveError,
+  InvalidGameRecordError,
+  InvalidSymbolError,
+  OccupiedTileError,
+  OutOfBoundsError,
+  OutOfTurnError,
+  WrongFirstPlayerError,
+} from './errors';
+
+const EMPTY = ' ';
+const PLAYERS = ['X', 'O'] as const;
+
+export type Player = (typeof PLAYERS)[number];
+export type Symbol = Player | typeof EMPTY;
+
+function isPlayer(symbol: string): symbol is Player {
+  return PLAYERS.some((player) => player == symbol);
+}
+
+// row, column, diagonal and anti-diagonal: every line a win can be made on
+const DIRECTIONS: [number, number][] = [
+  [0, 1],
+  [1, 0],
+  [1, 1],
+  [1, -1],
+];
+
+export interface Coordinates {
+  X: number;
+  Y: number;
+}
+
+// a Size x Size board won by the first player lining up WinLength symbols
+export interface GameOptions {
+  Size: number;
+  WinLength: number;
+}
+
+export type GameStatus =
+  | { Kind: 'InProgress'; NextPlayer: Player }
+  | { Kind: 'Won'; Winner: Player; Line: Coordinates[] }
+  | { Kind: 'Draw' };
+
+export interface Move {
+  Symbol: Player;
+  X: number;
+  Y: number;
+  Number: number;
+}
+
+// the position a game started from, in compact notation, and the moves played since
+export interface GameRecord {
+  Size: number;
+  WinLength: number;
+  Start: string;
+  Moves: Move[];
+}
+
+// every event carries the board row by row, so subscribers can render it as is
+export type GameEvent =
+  | { Type: 'MovePlayed'; Move: Move; Board: Symbol[][]; Status: GameStatus }
+  | {
+      Type: 'MoveRejected';
+      Symbol: string;
+      X: number;
+      Y: number;
+      Reason: IllegalMoveError;
+      Board: Symbol[][];
+    }
+  | { Type: 'GameWon'; Winner: Player; Line: Coordinates[]; Board: Symbol[][] }
+  | { Type: 'GameDrawn'; Board: Symbol[][] }
+  | { Type: 'MoveUndone'; Move: Move; Board: Symbol[][]; Status: GameStatus };
+
+export type GameEventType = GameEvent['Type'];
+export type GameListener<T extends GameEventType> = (
+  event: Extract<GameEvent, { Type: T }>,
+) => void;
+
+interface Win {
+  Winner: Player;
+  Line: Coordinates[];
+}
 
 export class Game {
-  private _lastSymbol = ' ';
-  private _x: Board = new Board();
+  private _lastSymbol: Symbol = EMPTY;
+  private _board: Board;
+  private _winLength: number;
+  private _win: Win | undefined;
+  private _moves: Move[] = [];
+  private _undone: Move[] = [];
+  private _listeners: { Type: GameEventType; Listener: (event: never) => void }[] = [];
+
+  // WinLength defaults to the board size, so `new Game()` is the classic 3x3 game
+  constructor(options: Partial<GameOptions> = {}) {
+    const size = options.Size ?? 3;
+    const winLength = options.WinLength ?? size;
+
+    if (!Number.isInteger(size) || size < 1) {
+      throw new RangeError(`Invalid board size: ${size}`);
+    }
+    if (!Number.isInteger(winLength) || winLength < 1 || winLength > size) {
+      throw new RangeError(`Invalid win length: ${winLength} on a ${size}x${size} board`);
+    }
+
+    this._board = new Board(size);
+    this._winLength = winLength;
+  }
 
   public Play(symbol: string, x: number, y: number): void {
-    //if first move
-    if (this._lastSymbol == ' ') {
-      //if player is X
-      if (symbol != 'O') {
-        throw new Error('Invalid first player');
+    try {
+      this.CheckMove(symbol, x, y);
+    } catch (error) {
+      if (error instanceof IllegalMoveError) {
+        this.Emit({
+          Type: 'MoveRejected',
+          Symbol: symbol,
+          X: x,
+          Y: y,
+          Reason: error,
+          Board: this._board.Rows(),
+        });
       }
+      throw error;
+    }
+
+    // a new move makes the undone ones unreachable
+    this._undone = [];
+    this.Apply({ Symbol: symbol, X: x, Y: y, Number: this._board.Played() + 1 });
+  }
+
+  private CheckMove(symbol: string, x: number, y: number): asserts symbol is Player {
+    //if the game is already won or drawn
+    if (this.Status().Kind != 'InProgress') {
+      throw new GameOverError(symbol, x, y);
+    }
+    //if symbol is not one of the players
+    if (!isPlayer(symbol)) {
+      throw new InvalidSymbolError(symbol, x, y);
+    }
+    //if first move and player is O
+    if (this._lastSymbol == EMPTY && symbol == 'O') {
+      throw new WrongFirstPlayerError(symbol, x, y);
+    }
+    //if player repeated
+    if (symbol == this._lastSymbol) {
+      throw new OutOfTurnError(symbol, x, y);
     }
-    //if not first move but player repeated
-    else if (symbol == this._lastSymbol) {
-      throw new Error('Invalid next player');
+    //if play outside of the board
+    if (!this._board.Contains(x, y)) {
+      throw new OutOfBoundsError(symbol, x, y);
     }
-    //if not first move but play on an already played tile
-    else if (this._x.TileAt(x, y).Symbol != ' ') {
-      throw new Error('Invalid position');
+    //if play on an already played tile
+    if (this._board.TileAt(x, y).Symbol != EMPTY) {
+      throw new OccupiedTileError(symbol, x, y);
+    }
+  }
+
+  public Undo(): Move | undefined {
+    const move = this._moves.pop();
+    if (!move) {
+      return undefined;
     }
 
-    // update game state
-    this._lastSymbol = symbol;
-    this._x.AddTileAt(symbol, x, y);
+    this._board.RemoveTileAt(move.X, move.Y);
+    this._undone.push(move);
+    // players alternate, so the opponent moved before unless the board is empty again
+    this._lastSymbol = this._board.Played() == 0 ? EMPTY : move.Symbol == 'X' ? 'O' : 'X';
+    // no move is accepted after a win, so the game was in progress before this one
+    this._win = undefined;
+    this.Emit({
+      Type: 'MoveUndone',
+      Move: { ...move },
+      Board: this._board.Rows(),
+      Status: this.Status(),
+    });
+
+    return move;
   }
 
-  public Winner(): string {
-    //if the positions in first row are taken
-    if (
-      this._x.TileAt(0, 0)!.Symbol != ' ' &&
-      this._x.TileAt(0, 1)!.Symbol != ' ' &&
-      this._x.TileAt(0, 2)!.Symbol != ' '
-    ) {
-      //if first row is full with same symbol
-      if (
-        this._x.TileAt(0, 0)!.Symbol == this._x.TileAt(0, 1)!.Symbol &&
-        this._x.TileAt(0, 2)!.Symbol == this._x.TileAt(0, 1)!.Symbol
-      ) {
-        return this._x.TileAt(0, 0)!.Symbol;
+  public Redo(): Move | undefined {
+    const move = this._undone.pop();
+    if (move) {
+      this.Apply(move);
+    }
+
+    return move;
+  }
+
+  // returns a function unsubscribing the listener
+  public On<T extends GameEventType>(type: T, listener: GameListener<T>): () => void {
+    this._listeners.push({ Type: type, Listener: listener });
+
+    return () => this.Off(type, listener);
+  }
+
+  public Off<T extends GameEventType>(type: T, listener: GameListener<T>): void {
+    this._listeners = this._listeners.filter((l) => l.Type != type || l.Listener != listener);
+  }
+
+  // the board row by row, as carried by the events
+  public Rows(): Symbol[][] {
+    return this._board.Rows();
+  }
+
+  public History(): Move[] {
+    return this._moves.map((move) => ({ ...move }));
+  }
+
+  // empty tiles in row-major order, none once the game is over
+  public AvailableMoves(): Coordinates[] {
+    if (this.Status().Kind != 'InProgress') {
+      return [];
+    }
+
+    return this._board
+      .Tiles()
+      .filter((tile) => tile.Symbol == EMPTY)
+      .map(({ X, Y }) => ({ X, Y }));
+  }
+
+  public Winner(): Symbol {
+    const status = this.Status();
+
+    return status.Kind == 'Won' ? status.Winner : EMPTY;
+  }
+
+  public Status(): GameStatus {
+    if (this._win) {
+      return { Kind: 'Won', Winner: this._win.Winner, Line: [...this._win.Line] };
+    }
+
+    if (this._board.IsFull()) {
+      return { Kind: 'Draw' };
+    }
+
+    return { Kind: 'InProgress', NextPlayer: this._lastSymbol == 'X' ? 'O' : 'X' };
+  }
+
+  // undone moves are not part of the record
+  public toJSON(): GameRecord {
+    const start = this._board.Clone();
+    for (const move of this._moves) {
+      start.RemoveTileAt(move.X, move.Y);
+    }
+
+    return {
+      Size: this._board.Size(),
+      WinLength: this._winLength,
+      Start: start.ToNotation(),
+      Moves: this.History(),
+    };
+  }
+
+  // rows top to bottom separated by '|', '.' for an empty tile, then the side to move
+  // or '-' once the game is over, e.g. 'X..|.O.|..X O'
+  public toNotation(): string {
+    const status = this.Status();
+
+    return `${this._board.ToNotation()} ${status.Kind == 'InProgress' ? status.NextPlayer : '-'}`;
+  }
+
+  public static fromJSON(record: GameRecord): Game {
+    if (!Array.isArray(record.Moves)) {
+      throw new InvalidGameRecordError('moves are missing');
+    }
+
+    const game = Game.FromPosition(record.Start, {
+      Size: record.Size,
+      WinLength: record.WinLength,
+    });
+    for (const move of record.Moves) {
+      try {
+        game.Play(move.Symbol, move.X, move.Y);
+      } catch (error) {
+        if (error instanceof IllegalMoveError) {
+          throw new InvalidGameRecordError(
+            `move ${move.Number} cannot be replayed: ${error.message}`,
+          );
+        }
+        throw error;
+      }
+
+      if (game._board.Played() != move.Number) {
+        throw new InvalidGameRecordError(`move ${move.Number} is numbered out of sequence`);
       }
     }
 
-    //if the positions in first row are taken
-    if (
-      this._x.TileAt(1, 0)!.Symbol != ' ' &&
-      this._x.TileAt(1, 1)!.Symbol != ' ' &&
-      this._x.TileAt(1, 2)!.Symbol != ' '
-    ) {
-      //if middle row is full with same symbol
-      if (
-        this._x.TileAt(1, 0)!.Symbol == this._x.TileAt(1, 1)!.Symbol &&
-        this._x.TileAt(1, 2)!.Symbol == this._x.TileAt(1, 1)!.Symbol
-      ) {
-        return this._x.TileAt(1, 0)!.Symbol;
+    return game;
+  }
+
+  // the board size is the number of rows; WinLength defaults to it like in the constructor
+  public static fromNotation(
+    notation: string,
+    options: Partial<Pick<GameOptions, 'WinLength'>> = {},
+  ): Game {
+    const [position = '', side, ...rest] = notation.trim().split(' ');
+    if (side === undefined || rest.length > 0) {
+      throw new InvalidGameRecordError(`expected a position and a side to move in '${notation}'`);
+    }
+
+    const size = position.split('|').length;
+    const game = Game.FromPosition(position, { Size: size, WinLength: options.WinLength ?? size });
+    const status = game.Status();
+    const expected = status.Kind == 'InProgress' ? status.NextPlayer : '-';
+    if (side != expected) {
+      throw new InvalidGameRecordError(`side to move should be '${expected}', not '${side}'`);
+    }
+
+    return game;
+  }
+
+  private static FromPosition(position: string, options: GameOptions): Game {
+    const rows = typeof position == 'string' ? position.split('|') : [];
+    if (rows.length != options.Size || rows.some((row) => row.length != options.Size)) {
+      throw new InvalidGameRecordError(
+        `'${position}' is not a ${options.Size}x${options.Size} board`,
+      );
+    }
+
+    let game: Game;
+    try {
+      game = new Game(options);
+    } catch (error) {
+      throw new InvalidGameRecordError((error as Error).message);
+    }
+
+    rows.forEach((row, x) =>
+      [...row].forEach((notation, y) => {
+        const symbol = notation == '.' ? EMPTY : notation;
+        if (symbol == EMPTY) {
+          return;
+        }
+        if (!isPlayer(symbol)) {
+          throw new InvalidGameRecordError(`'${notation}' at (${x}, ${y}) is not a tile`);
+        }
+        game._board.AddTileAt(symbol, x, y);
+      }),
+    );
+
+    game.RestoreTurnAndWinner();
+
+    return game;
+  }
+
+  // X always opens, so X has played as many times as O or once more, and whoever
+  // moved last is the only player who can own a winning line
+  private RestoreTurnAndWinner(): void {
+    const tiles = this._board.Tiles();
+    const xs = tiles.filter((tile) => tile.Symbol == 'X').length;
+    const os = tiles.filter((tile) => tile.Symbol == 'O').length;
+    if (xs != os && xs != os + 1) {
+      throw new InvalidGameRecordError(`X played ${xs} times and O ${os} times`);
+    }
+
+    const lastMover: Symbol = xs == 0 ? EMPTY : xs == os ? 'O' : 'X';
+    const wins = tiles
+      .filter((tile) => tile.Symbol != EMPTY)
+      .map((tile) => this.FindWinThrough(tile.Symbol as Player, tile.X, tile.Y))
+      .filter((win): win is Win => win !== undefined);
+
+    if (wins.some((win) => win.Winner == 'X') && wins.some((win) => win.Winner == 'O')) {
+      throw new InvalidGameRecordError('both players have a winning line');
+    }
+    if (wins.some((win) => win.Winner != lastMover)) {
+      throw new InvalidGameRecordError(`${lastMover} moved last, so it must be the winner`);
+    }
+
+    this._lastSymbol = lastMover;
+    this._win = wins[0];
+  }
+
+  private Apply(move: Move): void {
+    this._lastSymbol = move.Symbol;
+    this._board.AddTileAt(move.Symbol, move.X, move.Y);
+    this._moves.push(move);
+    this._win = this.FindWinThrough(move.Symbol, move.X, move.Y);
+
+    const board = this._board.Rows();
+    const status = this.Status();
+    this.Emit({ Type: 'MovePlayed', Move: { ...move }, Board: board, Status: status });
+    if (status.Kind == 'Won') {
+      this.Emit({ Type: 'GameWon', Winner: status.Winner, Line: status.Line, Board: board });
+    }
+    if (status.Kind == 'Draw') {
+      this.Emit({ Type: 'GameDrawn', Board: board });
+    }
+  }
+
+  // the game is already updated when listeners run: one that throws is ignored so that
+  // it can neither undo half a move nor keep the other listeners from being notified
+  private Emit<T extends GameEventType>(event: Extract<GameEvent, { Type: T }>): void {
+    const listeners = this._listeners.filter((l) => l.Type == event.Type);
+    for (const { Listener } of listeners) {
+      try {
+        (Listener as GameListener<T>)(event);
+      } catch {
+        // ignored, see above
       }
     }
+  }
 
-    //if the positions in first row are taken
-    if (
-      this._x.TileAt(2, 0)!.Symbol != ' ' &&
-      this._x.TileAt(2, 1)!.Symbol != ' ' &&
-      this._x.TileAt(2, 2)!.Symbol != ' '
-    ) {
-      //if middle row is full with same symbol
-      if (
-        this._x.TileAt(2, 0)!.Symbol == this._x.TileAt(2, 1)!.Symbol &&
-        this._x.TileAt(2, 2)!.Symbol == this._x.TileAt(2, 1)!.Symbol
-      ) {
-        return this._x.TileAt(2, 0)!.Symbol;
+  // only lines through the last move can have been completed by it
+  private FindWinThrough(symbol: Player, x: number, y: number): Win | undefined {
+    for (const [dx, dy] of DIRECTIONS) {
+      const line = [
+        ...this.RunFrom(symbol, x, y, -dx, -dy).reverse(),
+        { X: x, Y: y },
+        ...this.RunFrom(symbol, x, y, dx, dy),
+      ];
+
+      if (line.length >= this._winLength) {
+        return { Winner: symbol, Line: line };
       }
     }
 
-    return ' ';
+    return undefined;
+  }
+
+  // consecutive tiles holding symbol, walking away from (x, y) without including it
+  private RunFrom(symbol: Player, x: number, y: number, dx: number, dy: number): Coordinates[] {
+    const run: Coordinates[] = [];
+
+    for (
+      let i = x + dx, j = y + dy;
+      this._board.Contains(i, j) && this._board.TileAt(i, j).Symbol == symbol;
+      i += dx, j += dy
+    ) {
+      run.push({ X: i, Y: j });
+    }
+
+    return run;
   }
 }
 
 interface Tile {
   X: number;
   Y: number;
-  Symbol: string;
+  Symbol: Symbol;
 }
 
 class Board {
   private _plays: Tile[] = [];
+  private _played = 0;
 
-  constructor() {
-    for (let i = 0; i < 3; i++) {
-      for (let j = 0; j < 3; j++) {
-        const tile: Tile = { X: i, Y: j, Symbol: ' ' };
+  constructor(private readonly _size: number) {
+    for (let i = 0; i < _size; i++) {
+      for (let j = 0; j < _size; j++) {
+        const tile: Tile = { X: i, Y: j, Symbol: EMPTY };
         this._plays.push(tile);
       }
     }
   }
 
+  public Size(): number {
+    return this._size;
+  }
+
+  public Clone(): Board {
+    const board = new Board(this._size);
+    board._plays = this.Tiles();
+    board._played = this._played;
+
+    return board;
+  }
+
+  public Tiles(): Tile[] {
+    return this._plays.map((tile) => ({ ...tile }));
+  }
+
+  public Played(): number {
+    return this._played;
+  }
+
+  public Rows(): Symbol[][] {
+    const rows: Symbol[][] = [];
+    for (let i = 0; i < this._size; i++) {
+      rows.push(this._plays.slice(i * this._size, (i + 1) * this._size).map((tile) => tile.Symbol));
+    }
+
+    return rows;
+  }
+
+  public ToNotation(): string {
+    return this.Rows()
+      .map((row) => row.map((symbol) => (symbol == EMPTY ? '.' : symbol)).join(''))
+      .join('|');
+  }
+
+  public Contains(x: number, y: number): boolean {
+    return [x, y].every((c) => Number.isInteger(c) && c >= 0 && c < this._size);
+  }
+
   public TileAt(x: number, y: number): Tile {
-    return this._plays.find((t: Tile) => t.X == x && t.Y == y)!;
+    if (!this.Contains(x, y)) {
+      throw new RangeError(`Tile (${x}, ${y}) is outside the board`);
+    }
+
+    return this._plays[x * this._size + y]!;
+  }
+
+  public IsFull(): boolean {
+    return this._played == this._plays.length;
+  }
+
+  public AddTileAt(symbol: Player, x: number, y: number): void {
+    const tile = this.TileAt(x, y);
+    if (tile.Symbol == EMPTY) {
+      this._played++;
+    }
+
+    tile.Symbol = symbol;
   }
 
-  public AddTileAt(symbol: string, x: number, y: number): void {
-    //@ts-ignore
-    const tile: Tile = { X: x, Y: y, Symbol: symbol };
+  public RemoveTileAt(x: number, y: number): void {
+    const tile = this.TileAt(x, y);
+    if (tile.Symbol != EMPTY) {
+      this._played--;
+    }
 
-    this._plays.find((t: Tile) => t.X == x && t.Y == y)!.Symbol = symbol;
+    tile.Symbol = EMPTY;
   }
 }
@@ -0,0 +1,56 @@
+import { Game } from './kata';
+import { Render, RenderBoard } from './renderer';
+
+describe('TicTacToe renderer', () => {
+  it('should draw an empty board with its coordinates', () => {
+    expect(Render(new Game())).toBe(
+      [
+        '   0   1   2',
+        '0    |   |',
+        '  ---+---+---',
+        '1    |   |',
+        '  ---+---+---',
+        '2    |   |',
+      ].join('\n'),
+    );
+  });
+
+  it('should draw the symbols played', () => {
+    const game = Game.fromNotation('X..|.O.|..X O');
+
+    expect(Render(game)).toBe(
+      [
+        '   0   1   2',
+        '0  X |   |',
+        '  ---+---+---',
+        '1    | O |',
+        '  ---+---+---',
+        '2    |   | X',
+      ].join('\n'),
+    );
+  });
+
+  it('should highlight the winning line', () => {
+    const game = Game.fromNotation('XXX|OO.|... -');
+
+    expect(Render(game)).toBe(
+      [
+        '   0   1   2',
+        '0 [X]|[X]|[X]',
+        '  ---+---+---',
+        '1  O | O |',
+        '  ---+---+---',
+        '2    |   |',
+      ].join('\n'),
+    );
+  });
+
+  it('should align two digit coordinates on larger boards', () => {
+    const lines = RenderBoard(new Game({ Size: 11, WinLength: 5 }).Rows()).split('\n');
+
+    expect(lines[0]).toBe(
+      `   ${[...Array(11).keys()].map((y) => String(y).padStart(2)).join('  ')}`,
+    );
+    expect(lines[lines.length - 1]).toBe(`10 ${Array(11).fill('   ').join('|')}`.trimEnd());
+  });
+});
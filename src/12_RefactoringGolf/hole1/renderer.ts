@@ -0,0 +1,28 @@
+import { Coordinates, Game, Symbol } from './kata';
+
+// rows top to bottom with their index on the left and column indexes on top;
+// highlighted tiles are bracketed, e.g. [X]
+export function RenderBoard(rows: Symbol[][], highlighted: Coordinates[] = []): string {
+  const width = String(rows.length - 1).length;
+  const margin = ' '.repeat(width);
+  const isHighlighted = (x: number, y: number): boolean =>
+    highlighted.some((tile) => tile.X == x && tile.Y == y);
+
+  const header = `${margin} ${rows.map((_, y) => String(y).padStart(2).padEnd(3)).join(' ')}`;
+  const separator = `${margin} ${rows.map(() => '---').join('+')}`;
+  const lines = rows.map((row, x) => {
+    const tiles = row.map((symbol, y) => (isHighlighted(x, y) ? `[${symbol}]` : ` ${symbol} `));
+
+    return `${String(x).padStart(width)} ${tiles.join('|')}`;
+  });
+
+  return [header, ...lines.flatMap((line, x) => (x == 0 ? [line] : [separator, line]))]
+    .map((line) => line.trimEnd())
+    .join('\n');
+}
+
+export function Render(game: Game): string {
+  const status = game.Status();
+
+  return RenderBoard(game.Rows(), status.Kind == 'Won' ? status.Line : []);
+}
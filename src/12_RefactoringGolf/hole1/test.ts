@@ -1,3 +1,13 @@
+import {
+  GameOverError,
+  IllegalMoveError,
+  InvalidGameRecordError,
+  InvalidSymbolError,
+  OccupiedTileError,
+  OutOfBoundsError,
+  OutOfTurnError,
+  WrongFirstPlayerError,
+} from './errors';
 import { Game } from './kata';
 
 describe('TicTacToe game', () => {
@@ -8,23 +18,54 @@ describe('TicTacToe game', () => {
   });
 
   test('should not allow player O to play first', () => {
-    expect(() => game.Play('O', 0, 0)).toThrow();
+    expect(() => game.Play('O', 0, 0)).toThrow(WrongFirstPlayerError);
   });
 
   it('should not allow player x to play twice in a row', () => {
     game.Play('X', 0, 0);
-    expect(() => game.Play('X', 1, 0)).toThrow();
+    expect(() => game.Play('X', 1, 0)).toThrow(OutOfTurnError);
   });
 
   it('should not allow a player to play in last played position', () => {
     game.Play('X', 0, 0);
-    expect(() => game.Play('O', 0, 0)).toThrow();
+    expect(() => game.Play('O', 0, 0)).toThrow(OccupiedTileError);
   });
 
   it('should not allow a player to play in any played position', () => {
     game.Play('X', 0, 0);
     game.Play('O', 1, 0);
-    expect(() => game.Play('X', 0, 0)).toThrow();
+    expect(() => game.Play('X', 0, 0)).toThrow(OccupiedTileError);
+  });
+
+  it('should not allow a player to play outside of the board', () => {
+    expect(() => game.Play('X', 3, 0)).toThrow(OutOfBoundsError);
+    expect(() => game.Play('X', 0, -1)).toThrow(OutOfBoundsError);
+    expect(() => game.Play('X', 5, 7)).toThrow(OutOfBoundsError);
+  });
+
+  it('should not allow a player to play between tiles', () => {
+    expect(() => game.Play('X', 0.5, 1)).toThrow(OutOfBoundsError);
+    expect(() => game.Play('X', NaN, 1)).toThrow(OutOfBoundsError);
+  });
+
+  it('should not allow a symbol that is not a player', () => {
+    expect(() => game.Play('Z', 0, 0)).toThrow(InvalidSymbolError);
+    expect(() => game.Play('x', 0, 0)).toThrow(InvalidSymbolError);
+    expect(() => game.Play(' ', 0, 0)).toThrow(InvalidSymbolError);
+  });
+
+  it('should describe the rejected move on the thrown error', () => {
+    game.Play('X', 0, 0);
+
+    let error: unknown;
+    try {
+      game.Play('O', 0, 0);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(IllegalMoveError);
+    expect(error).toMatchObject({ name: 'OccupiedTileError', Symbol: 'O', X: 0, Y: 0 });
   });
 
   it('should declare player X as winner if it plays three in top row', () => {
@@ -101,4 +142,595 @@ describe('TicTacToe game', () => {
 
     expect(winner).toBe('O');
   });
+
+  it('should declare player X as winner if it plays three in left column', () => {
+    game.Play('X', 0, 0);
+    game.Play('O', 0, 1);
+    game.Play('X', 1, 0);
+    game.Play('O', 1, 1);
+    game.Play('X', 2, 0);
+
+    const winner = game.Winner();
+
+    expect(winner).toBe('X');
+  });
+
+  it('should declare player O as winner if it plays three in middle column', () => {
+    game.Play('X', 0, 0);
+    game.Play('O', 0, 1);
+    game.Play('X', 1, 0);
+    game.Play('O', 1, 1);
+    game.Play('X', 2, 2);
+    game.Play('O', 2, 1);
+
+    const winner = game.Winner();
+
+    expect(winner).toBe('O');
+  });
+
+  it('should declare player X as winner if it plays three in right column', () => {
+    game.Play('X', 0, 2);
+    game.Play('O', 0, 0);
+    game.Play('X', 1, 2);
+    game.Play('O', 1, 1);
+    game.Play('X', 2, 2);
+
+    const winner = game.Winner();
+
+    expect(winner).toBe('X');
+  });
+
+  it('should declare player X as winner if it plays three in main diagonal', () => {
+    game.Play('X', 0, 0);
+    game.Play('O', 0, 1);
+    game.Play('X', 1, 1);
+    game.Play('O', 0, 2);
+    game.Play('X', 2, 2);
+
+    const winner = game.Winner();
+
+    expect(winner).toBe('X');
+  });
+
+  it('should declare player O as winner if it plays three in anti diagonal', () => {
+    game.Play('X', 0, 0);
+    game.Play('O', 0, 2);
+    game.Play('X', 0, 1);
+    game.Play('O', 1, 1);
+    game.Play('X', 2, 2);
+    game.Play('O', 2, 0);
+
+    const winner = game.Winner();
+
+    expect(winner).toBe('O');
+  });
+
+  it('should not declare a winner on an empty board', () => {
+    const winner = game.Winner();
+
+    expect(winner).toBe(' ');
+  });
+
+  it('should not declare a winner while a line is only partially filled', () => {
+    game.Play('X', 0, 0);
+    game.Play('O', 1, 1);
+    game.Play('X', 0, 1);
+
+    const winner = game.Winner();
+
+    expect(winner).toBe(' ');
+  });
+
+  it('should not declare a winner when a line holds mixed symbols', () => {
+    game.Play('X', 0, 0);
+    game.Play('O', 0, 1);
+    game.Play('X', 0, 2);
+
+    const winner = game.Winner();
+
+    expect(winner).toBe(' ');
+  });
+
+  it('should not declare a winner when the board is full without any line', () => {
+    game.Play('X', 0, 0);
+    game.Play('O', 0, 1);
+    game.Play('X', 0, 2);
+    game.Play('O', 1, 1);
+    game.Play('X', 1, 0);
+    game.Play('O', 1, 2);
+    game.Play('X', 2, 1);
+    game.Play('O', 2, 0);
+    game.Play('X', 2, 2);
+
+    const winner = game.Winner();
+
+    expect(winner).toBe(' ');
+  });
+
+  describe('status', () => {
+    it('should be in progress with X to play on a new game', () => {
+      expect(game.Status()).toEqual({ Kind: 'InProgress', NextPlayer: 'X' });
+    });
+
+    it('should be in progress with O to play after X has played', () => {
+      game.Play('X', 1, 1);
+
+      expect(game.Status()).toEqual({ Kind: 'InProgress', NextPlayer: 'O' });
+    });
+
+    it('should report the winner and the winning line', () => {
+      game.Play('X', 0, 2);
+      game.Play('O', 0, 0);
+      game.Play('X', 1, 1);
+      game.Play('O', 0, 1);
+      game.Play('X', 2, 0);
+
+      expect(game.Status()).toEqual({
+        Kind: 'Won',
+        Winner: 'X',
+        Line: [
+          { X: 0, Y: 2 },
+          { X: 1, Y: 1 },
+          { X: 2, Y: 0 },
+        ],
+      });
+    });
+
+    it('should report a draw when the board is full without any line', () => {
+      game.Play('X', 0, 0);
+      game.Play('O', 0, 1);
+      game.Play('X', 0, 2);
+      game.Play('O', 1, 1);
+      game.Play('X', 1, 0);
+      game.Play('O', 1, 2);
+      game.Play('X', 2, 1);
+      game.Play('O', 2, 0);
+      game.Play('X', 2, 2);
+
+      expect(game.Status()).toEqual({ Kind: 'Draw' });
+    });
+
+    it('should report a win rather than a draw when the last move fills the board', () => {
+      game.Play('X', 0, 0);
+      game.Play('O', 0, 1);
+      game.Play('X', 0, 2);
+      game.Play('O', 1, 1);
+      game.Play('X', 1, 0);
+      game.Play('O', 1, 2);
+      game.Play('X', 2, 1);
+      game.Play('O', 2, 2);
+      game.Play('X', 2, 0);
+
+      expect(game.Status()).toMatchObject({ Kind: 'Won', Winner: 'X' });
+    });
+  });
+
+  it('should not allow a player to play once the game is won', () => {
+    game.Play('X', 0, 0);
+    game.Play('O', 1, 0);
+    game.Play('X', 0, 1);
+    game.Play('O', 1, 1);
+    game.Play('X', 0, 2);
+
+    expect(() => game.Play('O', 1, 2)).toThrow(GameOverError);
+  });
+
+  it('should not allow a player to play once the game is drawn', () => {
+    game.Play('X', 0, 0);
+    game.Play('O', 0, 1);
+    game.Play('X', 0, 2);
+    game.Play('O', 1, 1);
+    game.Play('X', 1, 0);
+    game.Play('O', 1, 2);
+    game.Play('X', 2, 1);
+    game.Play('O', 2, 0);
+    game.Play('X', 2, 2);
+
+    expect(() => game.Play('O', 0, 0)).toThrow(GameOverError);
+  });
+
+  describe('on a larger board', () => {
+    it('should require a full row to win by default', () => {
+      game = new Game({ Size: 4 });
+      game.Play('X', 0, 0);
+      game.Play('O', 1, 0);
+      game.Play('X', 0, 1);
+      game.Play('O', 1, 1);
+      game.Play('X', 0, 2);
+
+      expect(game.Winner()).toBe(' ');
+
+      game.Play('O', 1, 2);
+      game.Play('X', 0, 3);
+
+      expect(game.Winner()).toBe('X');
+    });
+
+    it('should allow playing on any tile of the board', () => {
+      game = new Game({ Size: 15, WinLength: 5 });
+
+      expect(() => game.Play('X', 14, 14)).not.toThrow();
+      expect(() => game.Play('O', 15, 0)).toThrow(OutOfBoundsError);
+    });
+
+    it('should declare a winner once win length symbols are aligned', () => {
+      game = new Game({ Size: 15, WinLength: 5 });
+      game.Play('X', 7, 7);
+      game.Play('O', 0, 0);
+      game.Play('X', 8, 6);
+      game.Play('O', 0, 1);
+      game.Play('X', 10, 4);
+      game.Play('O', 0, 2);
+      game.Play('X', 6, 8);
+
+      expect(game.Status()).toEqual({ Kind: 'InProgress', NextPlayer: 'O' });
+
+      game.Play('O', 0, 3);
+      game.Play('X', 9, 5);
+
+      expect(game.Status()).toEqual({
+        Kind: 'Won',
+        Winner: 'X',
+        Line: [
+          { X: 6, Y: 8 },
+          { X: 7, Y: 7 },
+          { X: 8, Y: 6 },
+          { X: 9, Y: 5 },
+          { X: 10, Y: 4 },
+        ],
+      });
+    });
+
+    it('should not count symbols separated by an opponent tile', () => {
+      game = new Game({ Size: 6, WinLength: 4 });
+      game.Play('X', 2, 0);
+      game.Play('O', 2, 2);
+      game.Play('X', 2, 1);
+      game.Play('O', 5, 5);
+      game.Play('X', 2, 3);
+      game.Play('O', 5, 4);
+      game.Play('X', 2, 4);
+
+      expect(game.Winner()).toBe(' ');
+    });
+
+    it.each([
+      [{ Size: 0 }],
+      [{ Size: 2.5 }],
+      [{ Size: 3, WinLength: 4 }],
+      [{ Size: 3, WinLength: 0 }],
+    ])('should reject invalid options %j', (options) => {
+      expect(() => new Game(options)).toThrow(RangeError);
+    });
+  });
+
+  describe('history', () => {
+    it('should record every move in order', () => {
+      game.Play('X', 1, 1);
+      game.Play('O', 0, 2);
+
+      expect(game.History()).toEqual([
+        { Symbol: 'X', X: 1, Y: 1, Number: 1 },
+        { Symbol: 'O', X: 0, Y: 2, Number: 2 },
+      ]);
+    });
+
+    it('should not record rejected moves', () => {
+      game.Play('X', 1, 1);
+      expect(() => game.Play('O', 1, 1)).toThrow(OccupiedTileError);
+
+      expect(game.History()).toHaveLength(1);
+    });
+
+    it('should have nothing to undo or redo on a new game', () => {
+      expect(game.Undo()).toBeUndefined();
+      expect(game.Redo()).toBeUndefined();
+    });
+
+    it('should free the tile and give the turn back when undoing a move', () => {
+      game.Play('X', 1, 1);
+      game.Play('O', 0, 2);
+
+      expect(game.Undo()).toEqual({ Symbol: 'O', X: 0, Y: 2, Number: 2 });
+      expect(game.Status()).toEqual({ Kind: 'InProgress', NextPlayer: 'O' });
+      expect(() => game.Play('O', 0, 2)).not.toThrow();
+    });
+
+    it('should let X open the game again once every move is undone', () => {
+      game.Play('X', 1, 1);
+      game.Undo();
+
+      expect(() => game.Play('O', 0, 0)).toThrow(WrongFirstPlayerError);
+      expect(() => game.Play('X', 0, 0)).not.toThrow();
+    });
+
+    it('should resume a won game when undoing the winning move', () => {
+      game.Play('X', 0, 0);
+      game.Play('O', 1, 0);
+      game.Play('X', 0, 1);
+      game.Play('O', 1, 1);
+      game.Play('X', 0, 2);
+
+      game.Undo();
+
+      expect(game.Status()).toEqual({ Kind: 'InProgress', NextPlayer: 'X' });
+      expect(() => game.Play('X', 2, 2)).not.toThrow();
+    });
+
+    it('should replay undone moves in order when redoing', () => {
+      game.Play('X', 0, 0);
+      game.Play('O', 1, 0);
+      game.Play('X', 0, 1);
+      game.Play('O', 1, 1);
+      game.Play('X', 0, 2);
+      game.Undo();
+      game.Undo();
+
+      expect(game.Redo()).toEqual({ Symbol: 'O', X: 1, Y: 1, Number: 4 });
+      expect(game.Redo()).toEqual({ Symbol: 'X', X: 0, Y: 2, Number: 5 });
+      expect(game.Redo()).toBeUndefined();
+      expect(game.Winner()).toBe('X');
+    });
+
+    it('should forget undone moves once a new move is played', () => {
+      game.Play('X', 0, 0);
+      game.Play('O', 1, 0);
+      game.Undo();
+      game.Play('O', 2, 2);
+
+      expect(game.Redo()).toBeUndefined();
+      expect(game.History()).toEqual([
+        { Symbol: 'X', X: 0, Y: 0, Number: 1 },
+        { Symbol: 'O', X: 2, Y: 2, Number: 2 },
+      ]);
+    });
+  });
+
+  describe('serialization', () => {
+    it('should write the board and the side to move in compact notation', () => {
+      game.Play('X', 0, 0);
+      game.Play('O', 1, 1);
+      game.Play('X', 2, 2);
+
+      expect(game.toNotation()).toBe('X..|.O.|..X O');
+    });
+
+    it('should mark a finished game as having no side to move', () => {
+      game.Play('X', 0, 0);
+      game.Play('O', 1, 0);
+      game.Play('X', 0, 1);
+      game.Play('O', 1, 1);
+      game.Play('X', 0, 2);
+
+      expect(game.toNotation()).toBe('XXX|OO.|... -');
+    });
+
+    it('should restore a game in progress from compact notation', () => {
+      game = Game.fromNotation('X..|.O.|..X O');
+
+      expect(game.Status()).toEqual({ Kind: 'InProgress', NextPlayer: 'O' });
+      expect(() => game.Play('O', 0, 2)).not.toThrow();
+      expect(game.History()).toEqual([{ Symbol: 'O', X: 0, Y: 2, Number: 4 }]);
+    });
+
+    it('should give the turn back to the restored position when undoing', () => {
+      game = Game.fromNotation('X..|.O.|..X O');
+      game.Play('O', 0, 2);
+      game.Undo();
+
+      expect(game.toNotation()).toBe('X..|.O.|..X O');
+      expect(game.Undo()).toBeUndefined();
+    });
+
+    it('should restore a won game from compact notation', () => {
+      game = Game.fromNotation('XXX|OO.|... -');
+
+      expect(game.Status()).toMatchObject({ Kind: 'Won', Winner: 'X' });
+      expect(() => game.Play('O', 1, 2)).toThrow(GameOverError);
+    });
+
+    it('should restore a larger board with its win length', () => {
+      game = Game.fromNotation('X..X|O...|O...|..X. O', { WinLength: 3 });
+      game.Play('O', 3, 0);
+
+      expect(game.Winner()).toBe('O');
+    });
+
+    it.each([
+      ['X..|.O.|..X', 'the side to move is missing'],
+      ['X..|.O.|..X X', 'the side to move does not match the counts'],
+      ['XXX|OO.|... X', 'the game is over'],
+      ['X..|.O|..X O', 'a row is too short'],
+      ['X..|.Z.|..X O', 'a tile is unknown'],
+      ['XX.|...|... O', 'X played twice in a row'],
+      ['O..|...|... X', 'O opened the game'],
+      ['XXX|OOO|X.. -', 'both players have a line'],
+      ['XXX|OO.|..O -', 'O played after X won'],
+    ])('should reject the notation %s because %s', (notation) => {
+      expect(() => Game.fromNotation(notation)).toThrow(InvalidGameRecordError);
+    });
+
+    it('should round trip a game through JSON', () => {
+      game.Play('X', 1, 1);
+      game.Play('O', 0, 0);
+      game.Play('X', 2, 2);
+
+      const restored = Game.fromJSON(JSON.parse(JSON.stringify(game)));
+
+      expect(restored.History()).toEqual(game.History());
+      expect(restored.toNotation()).toBe(game.toNotation());
+      expect(restored.Undo()).toEqual({ Symbol: 'X', X: 2, Y: 2, Number: 3 });
+    });
+
+    it('should keep the starting position of a game restored from notation', () => {
+      game = Game.fromNotation('X..|.O.|..X O');
+      game.Play('O', 0, 2);
+
+      expect(game.toJSON()).toEqual({
+        Size: 3,
+        WinLength: 3,
+        Start: 'X..|.O.|..X',
+        Moves: [{ Symbol: 'O', X: 0, Y: 2, Number: 4 }],
+      });
+      expect(Game.fromJSON(game.toJSON()).toNotation()).toBe('X.O|.O.|..X X');
+    });
+
+    it('should reject a record whose moves cannot be replayed', () => {
+      const record = {
+        Size: 3,
+        WinLength: 3,
+        Start: '...|...|...',
+        Moves: [
+          { Symbol: 'X' as const, X: 0, Y: 0, Number: 1 },
+          { Symbol: 'X' as const, X: 1, Y: 1, Number: 2 },
+        ],
+      };
+
+      expect(() => Game.fromJSON(record)).toThrow(InvalidGameRecordError);
+    });
+
+    it('should reject a record whose moves are numbered out of sequence', () => {
+      const record = {
+        Size: 3,
+        WinLength: 3,
+        Start: '...|...|...',
+        Moves: [{ Symbol: 'X' as const, X: 0, Y: 0, Number: 2 }],
+      };
+
+      expect(() => Game.fromJSON(record)).toThrow(InvalidGameRecordError);
+    });
+  });
+
+  describe('events', () => {
+    it('should publish every move played with the resulting board and status', () => {
+      const listener = jest.fn();
+      game.On('MovePlayed', listener);
+
+      game.Play('X', 1, 1);
+
+      expect(listener).toHaveBeenCalledWith({
+        Type: 'MovePlayed',
+        Move: { Symbol: 'X', X: 1, Y: 1, Number: 1 },
+        Board: [
+          [' ', ' ', ' '],
+          [' ', 'X', ' '],
+          [' ', ' ', ' '],
+        ],
+        Status: { Kind: 'InProgress', NextPlayer: 'O' },
+      });
+    });
+
+    it('should publish rejected moves with the reason', () => {
+      const listener = jest.fn();
+      game.On('MoveRejected', listener);
+
+      expect(() => game.Play('O', 0, 0)).toThrow(WrongFirstPlayerError);
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          Type: 'MoveRejected',
+          Symbol: 'O',
+          X: 0,
+          Y: 0,
+          Reason: expect.any(WrongFirstPlayerError),
+        }),
+      );
+    });
+
+    it('should publish the winner and the winning line', () => {
+      const listener = jest.fn();
+      game.On('GameWon', listener);
+
+      game.Play('X', 0, 0);
+      game.Play('O', 1, 0);
+      game.Play('X', 0, 1);
+      game.Play('O', 1, 1);
+      game.Play('X', 0, 2);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          Type: 'GameWon',
+          Winner: 'X',
+          Line: [
+            { X: 0, Y: 0 },
+            { X: 0, Y: 1 },
+            { X: 0, Y: 2 },
+          ],
+        }),
+      );
+    });
+
+    it('should publish a draw', () => {
+      const listener = jest.fn();
+      game = Game.fromNotation('XOX|OOX|X.O X');
+      game.On('GameDrawn', listener);
+
+      game.Play('X', 2, 1);
+
+      expect(listener).toHaveBeenCalledWith({
+        Type: 'GameDrawn',
+        Board: [
+          ['X', 'O', 'X'],
+          ['O', 'O', 'X'],
+          ['X', 'X', 'O'],
+        ],
+      });
+    });
+
+    it('should publish undone moves and replay them as played moves on redo', () => {
+      const undone = jest.fn();
+      const played = jest.fn();
+      game.Play('X', 1, 1);
+      game.On('MoveUndone', undone);
+      game.On('MovePlayed', played);
+
+      game.Undo();
+      game.Redo();
+
+      expect(undone).toHaveBeenCalledWith(
+        expect.objectContaining({
+          Move: { Symbol: 'X', X: 1, Y: 1, Number: 1 },
+          Status: { Kind: 'InProgress', NextPlayer: 'X' },
+        }),
+      );
+      expect(played).toHaveBeenCalledWith(
+        expect.objectContaining({ Move: { Symbol: 'X', X: 1, Y: 1, Number: 1 } }),
+      );
+    });
+
+    it('should stop notifying a listener once unsubscribed', () => {
+      const listener = jest.fn();
+      const unsubscribe = game.On('MovePlayed', listener);
+      game.Play('X', 0, 0);
+
+      unsubscribe();
+      game.Play('O', 1, 1);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop notifying a listener removed with Off', () => {
+      const listener = jest.fn();
+      game.On('MovePlayed', listener);
+
+      game.Off('MovePlayed', listener);
+      game.Play('X', 0, 0);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should keep the move and notify other listeners when a listener throws', () => {
+      const listener = jest.fn();
+      game.On('MovePlayed', () => {
+        throw new Error('listener failure');
+      });
+      game.On('MovePlayed', listener);
+
+      expect(() => game.Play('X', 0, 0)).not.toThrow();
+
+      expect(listener).toHaveBeenCalled();
+      expect(game.toNotation()).toBe('X..|...|... O');
+    });
+  });
 });